@@ -0,0 +1,99 @@
+// Generates seek-preview sprite sheets and a WebVTT index for a local video.
+//
+//   npm run thumbnails -- <video-file> <output-dir> [--interval 10] [--width 160] [--columns 10] [--rows 10]
+//
+// Needs ffmpeg and ffprobe on PATH. Upload the output directory and set the
+// lecture's "thumbnails" field in the catalog to the URL of thumbnails.vtt.
+
+import { spawnSync } from 'node:child_process';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    interval: { type: 'string', default: '10' },
+    width: { type: 'string', default: '160' },
+    columns: { type: 'string', default: '10' },
+    rows: { type: 'string', default: '10' },
+  },
+});
+
+const [input, outputDir] = positionals;
+if (!input || !outputDir) {
+  console.error('Usage: npm run thumbnails -- <video-file> <output-dir> [--interval 10] [--width 160] [--columns 10] [--rows 10]');
+  process.exit(1);
+}
+
+const interval = parseFloat(values.interval);
+const tileWidth = parseInt(values.width);
+const columns = parseInt(values.columns);
+const rows = parseInt(values.rows);
+
+const run = (command: string, args: string[]) => {
+  const result = spawnSync(command, args, { encoding: 'utf8' });
+  if (result.error) {
+    console.error(`Could not run ${command}: ${result.error.message}`);
+    process.exit(1);
+  }
+  if (result.status !== 0) {
+    console.error(result.stderr);
+    process.exit(result.status ?? 1);
+  }
+  return result.stdout;
+};
+
+// Seconds to a VTT timestamp, e.g. 01:02:03.000
+const toTimestamp = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toFixed(3).padStart(6, '0');
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs}`;
+};
+
+const probe = JSON.parse(run('ffprobe', [
+  '-v', 'error',
+  '-select_streams', 'v:0',
+  '-show_entries', 'stream=width,height:format=duration',
+  '-of', 'json',
+  input,
+]));
+const duration = parseFloat(probe.format.duration);
+const { width: sourceWidth, height: sourceHeight } = probe.streams[0];
+
+// Keep the aspect ratio; encoders want even dimensions
+const tileHeight = Math.round((sourceHeight * tileWidth) / sourceWidth / 2) * 2;
+
+mkdirSync(outputDir, { recursive: true });
+console.log(`Extracting a ${tileWidth}x${tileHeight} frame every ${interval}s from ${path.basename(input)}...`);
+
+run('ffmpeg', [
+  '-v', 'error',
+  '-y',
+  '-i', input,
+  '-vf', `fps=1/${interval},scale=${tileWidth}:${tileHeight},tile=${columns}x${rows}`,
+  '-q:v', '5',
+  '-start_number', '0',
+  path.join(outputDir, 'sprite-%d.jpg'),
+]);
+
+const framesPerSheet = columns * rows;
+const frameCount = Math.ceil(duration / interval);
+const lines = ['WEBVTT', ''];
+
+for (let frame = 0; frame < frameCount; frame++) {
+  const start = frame * interval;
+  const end = Math.min(duration, start + interval);
+  const sheet = Math.floor(frame / framesPerSheet);
+  const position = frame % framesPerSheet;
+  const x = (position % columns) * tileWidth;
+  const y = Math.floor(position / columns) * tileHeight;
+
+  lines.push(`${toTimestamp(start)} --> ${toTimestamp(end)}`);
+  lines.push(`sprite-${sheet}.jpg#xywh=${x},${y},${tileWidth},${tileHeight}`);
+  lines.push('');
+}
+
+writeFileSync(path.join(outputDir, 'thumbnails.vtt'), lines.join('\n'));
+console.log(`Wrote ${frameCount} cues across ${Math.ceil(frameCount / framesPerSheet)} sprite sheets to ${outputDir}`);
@@ -0,0 +1,65 @@
+// Shows how the category rules classify every lecture and note title.
+//
+//   npm run categories:preview -- [--lectures <file>] [--notes <file>] [title ...]
+//
+// With titles as arguments, only those are classified, which is handy when
+// writing a pattern for a new topic. Otherwise every catalog entry is listed
+// with the category its title alone would get, marking entries whose catalog
+// "category" field disagrees and catalog categories missing from the rules.
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { classify, findCategoryRule } from '../src/lib/categories';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    lectures: { type: 'string', default: 'public/data/master-shahablectures.json' },
+    notes: { type: 'string', default: 'public/data/master-shahab-notes.json' },
+  },
+});
+
+interface Entry {
+  title: string;
+  category?: string;
+}
+
+const describe = (title: string) => {
+  const { category, source, pattern } = classify(title);
+  return source === 'title' ? `${category.name} (${pattern})` : `${category.name} (no rule matched)`;
+};
+
+if (positionals.length > 0) {
+  positionals.forEach(title => console.log(`${title}\n  -> ${describe(title)}`));
+  process.exit(0);
+}
+
+// Versioned catalogs keep their entries under `key`; version 1 files are bare arrays
+const readEntries = (file: string, key: string): Entry[] => {
+  const raw = JSON.parse(readFileSync(file, 'utf8'));
+  return Array.isArray(raw) ? raw : raw[key] ?? [];
+};
+
+let mismatches = 0;
+
+[
+  { label: 'Lectures', file: values.lectures, key: 'lectures' },
+  { label: 'Notes', file: values.notes, key: 'notes' },
+].forEach(({ label, file, key }) => {
+  console.log(`\n${label} (${file})`);
+
+  readEntries(file, key).forEach(entry => {
+    const fromTitle = classify(entry.title).category.name;
+    let note = '';
+    if (entry.category && !findCategoryRule(entry.category)) {
+      note = `  ! catalog category "${entry.category}" has no rule`;
+      mismatches++;
+    } else if (entry.category && findCategoryRule(entry.category)?.name !== fromTitle) {
+      note = `  ! catalog says ${entry.category}`;
+      mismatches++;
+    }
+    console.log(`  ${describe(entry.title).padEnd(40)} ${entry.title}${note}`);
+  });
+});
+
+console.log(`\n${mismatches} entries where the catalog and the title rules disagree`);
@@ -0,0 +1,237 @@
+// Validates the lecture and notes catalogs before they ship.
+//
+//   npm run validate:catalog -- [--lectures <file>] [--notes <file>] [--report <file>] [--fix]
+//
+// Checks both files against the schema the app loads them with, then looks for
+// duplicate IDs, titles and links, lectures pointing at notes that don't exist,
+// notes no lecture links to, categories missing from the category rules, and
+// text that isn't NFC-normalised. Errors fail the run (and so `npm run build`);
+// warnings are reported only. --fix rewrites the files with normalised text,
+// and --report writes the findings as JSON.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { z } from 'zod';
+import {
+  CATALOG_VERSION,
+  lectureCatalogSchema,
+  legacyLectureCatalogSchema,
+  legacyNoteCatalogSchema,
+  noteCatalogSchema,
+} from '../src/lib/catalog-schema';
+import { findCategoryRule } from '../src/lib/categories';
+
+const { values } = parseArgs({
+  options: {
+    lectures: { type: 'string', default: 'public/data/master-shahablectures.json' },
+    notes: { type: 'string', default: 'public/data/master-shahab-notes.json' },
+    report: { type: 'string' },
+    fix: { type: 'boolean', default: false },
+  },
+});
+
+type Severity = 'error' | 'warning';
+
+interface Finding {
+  severity: Severity;
+  code: string;
+  file: string;
+  // Dotted path inside the file, e.g. lectures.3.link
+  path: string;
+  message: string;
+}
+
+interface CatalogEntry {
+  id?: string;
+  title?: string;
+  link?: string;
+  category?: string;
+  notesId?: string;
+}
+
+interface LoadedCatalog {
+  file: string;
+  raw: unknown;
+  version: number | null;
+  // Key of the entry array in versioned files, or null for a bare array
+  listKey: 'lectures' | 'notes' | null;
+  entries: CatalogEntry[];
+}
+
+const findings: Finding[] = [];
+
+const report = (severity: Severity, code: string, file: string, entryPath: string, message: string) => {
+  findings.push({ severity, code, file, path: entryPath, message });
+};
+
+const entryPath = (catalog: LoadedCatalog, index: number, key?: string) =>
+  [catalog.listKey, index, key].filter(part => part !== null && part !== undefined).join('.');
+
+// Parse and schema-check one catalog file; null when it can't be read at all
+const loadCatalog = (
+  file: string,
+  listKey: 'lectures' | 'notes',
+  schema: z.ZodTypeAny,
+  legacySchema: z.ZodTypeAny,
+): LoadedCatalog | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    report('error', 'unreadable', file, '', (error as Error).message);
+    return null;
+  }
+
+  const isLegacy = Array.isArray(raw);
+  if (isLegacy) {
+    report('warning', 'legacy-format', file, '', `Bare array catalog; migrate to version ${CATALOG_VERSION}`);
+  }
+
+  const result = (isLegacy ? legacySchema : schema).safeParse(raw);
+  if (!result.success) {
+    (result.error as z.ZodError).issues.forEach(issue => {
+      report('error', 'schema', file, issue.path.join('.'), issue.message);
+    });
+  }
+
+  const list = isLegacy ? raw : (raw as Record<string, unknown>)?.[listKey];
+  return {
+    file,
+    raw,
+    version: isLegacy ? 1 : Number((raw as Record<string, unknown>)?.version) || null,
+    listKey: isLegacy ? null : listKey,
+    entries: Array.isArray(list) ? (list as CatalogEntry[]) : [],
+  };
+};
+
+// Report entries sharing a value for `key`; blank values are the schema's job
+const checkDuplicates = (catalog: LoadedCatalog, key: 'id' | 'title' | 'link', severity: Severity) => {
+  const seen = new Map<string, number>();
+  catalog.entries.forEach((entry, index) => {
+    const value = entry[key]?.normalize('NFC').trim();
+    if (!value) return;
+
+    const first = seen.get(value);
+    if (first === undefined) {
+      seen.set(value, index);
+    } else {
+      report(severity, `duplicate-${key}`, catalog.file, entryPath(catalog, index, key),
+        `Same ${key} as ${entryPath(catalog, first)}: ${value}`);
+    }
+  });
+};
+
+// Strings that NFC normalisation or whitespace cleanup would change
+const normaliseText = (value: string) => value.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+// Walk a parsed file, reporting (and with --fix, replacing) unnormalised strings
+const normaliseStrings = (catalog: LoadedCatalog, value: unknown, keyPath: string[]): unknown => {
+  if (typeof value === 'string') {
+    // Links are compared as-is; only NFC applies to them
+    const isLink = keyPath[keyPath.length - 1] === 'link';
+    const normalised = isLink ? value.normalize('NFC') : normaliseText(value);
+    if (normalised !== value) {
+      report('warning', 'unnormalised', catalog.file, keyPath.join('.'),
+        `${JSON.stringify(value)} should be ${JSON.stringify(normalised)}`);
+    }
+    return normalised;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => normaliseStrings(catalog, item, [...keyPath, String(index)]));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, normaliseStrings(catalog, item, [...keyPath, key])]),
+    );
+  }
+  return value;
+};
+
+// Write JSON the way the catalog files are formatted: 4-space indent,
+// non-ASCII as \u escapes and the file's existing line endings
+const writeCatalog = (file: string, data: unknown) => {
+  const original = readFileSync(file, 'utf8');
+  const newline = original.includes('\r\n') ? '\r\n' : '\n';
+  const json = JSON.stringify(data, null, 4)
+    .replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`)
+    .replace(/\n/g, newline);
+  writeFileSync(file, original.endsWith(newline) ? json + newline : json);
+};
+
+const lectures = loadCatalog(values.lectures, 'lectures', lectureCatalogSchema, legacyLectureCatalogSchema);
+const notes = loadCatalog(values.notes, 'notes', noteCatalogSchema, legacyNoteCatalogSchema);
+
+[lectures, notes].forEach(catalog => {
+  if (!catalog) return;
+  checkDuplicates(catalog, 'id', 'error');
+  checkDuplicates(catalog, 'title', 'warning');
+  checkDuplicates(catalog, 'link', 'warning');
+
+  // Still shown, but without an icon and after every known category
+  catalog.entries.forEach((entry, index) => {
+    if (entry.category && !findCategoryRule(entry.category)) {
+      report('warning', 'unknown-category', catalog.file, entryPath(catalog, index, 'category'),
+        `${entry.category} isn't in src/lib/category-rules.ts`);
+    }
+  });
+
+  const normalised = normaliseStrings(catalog, catalog.raw, []);
+  if (values.fix && findings.some(f => f.file === catalog.file && f.code === 'unnormalised')) {
+    writeCatalog(catalog.file, normalised);
+  }
+});
+
+// Cross-file links between lectures and their notes
+if (lectures && notes) {
+  const noteIds = new Set(notes.entries.map(note => note.id).filter(Boolean));
+  const linkedNoteIds = new Set<string>();
+
+  lectures.entries.forEach((lecture, index) => {
+    if (!lecture.notesId) {
+      report('warning', 'lecture-without-notes', lectures.file, entryPath(lectures, index),
+        `${lecture.title ?? '(untitled)'} has no notesId`);
+      return;
+    }
+    linkedNoteIds.add(lecture.notesId);
+    if (!noteIds.has(lecture.notesId)) {
+      report('error', 'missing-notes', lectures.file, entryPath(lectures, index, 'notesId'),
+        `No note with id ${lecture.notesId}`);
+    }
+  });
+
+  notes.entries.forEach((note, index) => {
+    if (note.id && !linkedNoteIds.has(note.id)) {
+      report('warning', 'orphaned-note', notes.file, entryPath(notes, index),
+        `${note.title ?? note.id} isn't linked from any lecture`);
+    }
+  });
+}
+
+const errors = findings.filter(finding => finding.severity === 'error');
+const warnings = findings.filter(finding => finding.severity === 'warning');
+
+if (values.report) {
+  const summary = {
+    ok: errors.length === 0,
+    generatedAt: new Date().toISOString(),
+    catalogs: [lectures, notes].filter(Boolean).map(catalog => ({
+      file: catalog!.file,
+      version: catalog!.version,
+      entries: catalog!.entries.length,
+    })),
+    fixed: values.fix,
+    errorCount: errors.length,
+    warningCount: warnings.length,
+    findings,
+  };
+  writeFileSync(values.report, JSON.stringify(summary, null, 2) + '\n');
+}
+
+findings.forEach(finding => {
+  const location = finding.path ? `${path.normalize(finding.file)} ${finding.path}` : path.normalize(finding.file);
+  console.log(`${finding.severity.padEnd(7)} ${finding.code.padEnd(22)} ${location}: ${finding.message}`);
+});
+console.log(`\n${errors.length} errors, ${warnings.length} warnings${values.fix ? ' (unnormalised text fixed)' : ''}`);
+
+process.exit(errors.length > 0 ? 1 : 0);
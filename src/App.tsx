@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
+import RootRedirect from "./components/RootRedirect";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 
@@ -18,7 +19,15 @@ function App() {
           <Sonner />
           <BrowserRouter>
             <Routes>
-              <Route path="/" element={<Index />} />
+              {/* One Index element for every app route, so access is checked once and
+                  the player keeps running while the URL changes underneath it */}
+              <Route element={<Index />}>
+                <Route path="/" element={<RootRedirect />} />
+                <Route path="/lectures" element={null} />
+                <Route path="/lectures/:lectureId" element={null} />
+                <Route path="/notes" element={null} />
+                <Route path="/notes/:noteId" element={null} />
+              </Route>
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -1,7 +1,9 @@
 import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Loader2, Clock } from 'lucide-react';
+import { storage } from '@/lib/storage';
 
 interface AccessControlProps {
   children: React.ReactNode;
@@ -14,14 +16,15 @@ const AccessControl = ({ children, homepageUrl = 'https://mywebsite.com/' }: Acc
   const [isChecking, setIsChecking] = useState(true);
   const [isRedirecting, setIsRedirecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const location = useLocation();
 
   // Check if user has valid access (within 24 hours)
   const checkAccess = () => {
     try {
-      const accessGranted = localStorage.getItem('access_granted');
-      if (!accessGranted) return false;
+      const accessTime = storage.get('access_granted');
+      if (!accessTime) return false;
 
-      const accessTime = parseInt(accessGranted);
       const now = Date.now();
       const dayInMs = 24 * 60 * 60 * 1000; // 24 hours
 
@@ -69,32 +72,42 @@ const AccessControl = ({ children, homepageUrl = 'https://mywebsite.com/' }: Acc
     }
   };
 
+  const fromShortener = new URLSearchParams(location.search).get('from_shortener') === 'true';
+
   useEffect(() => {
-    const urlParams = new URLSearchParams(window.location.search);
-    const fromShortener = urlParams.get('from_shortener');
-
-    if (fromShortener === 'true') {
-      // User completed the shortener redirect - grant access!
-      localStorage.setItem('access_granted', Date.now().toString());
-      setHasAccess(true);
-      setIsChecking(false);
-      
-      // Clean URL to remove the tracking param
-      window.history.replaceState({}, document.title, window.location.pathname);
-    } else {
-      // Check if user already has access
-      const accessValid = checkAccess();
-      setHasAccess(accessValid);
-      setIsChecking(false);
-
-      // Auto-redirect after brief delay if no access
-      if (!accessValid) {
-        setTimeout(() => {
-          redirectToShortener();
-        }, 2000); // Wait 2 seconds before redirect
-      }
+    if (!fromShortener) return;
+
+    // User completed the shortener redirect - grant access!
+    storage.set('access_granted', Date.now());
+    setHasAccess(true);
+    setIsChecking(false);
+
+    // Clean URL to remove the tracking param, keeping the route the user came back to
+    const urlParams = new URLSearchParams(location.search);
+    urlParams.delete('from_shortener');
+    const search = urlParams.toString();
+    navigate({ pathname: location.pathname, search: search ? `?${search}` : '' }, { replace: true });
+  }, [fromShortener, location.pathname, location.search, navigate]);
+
+  // Checked when the app loads rather than on every route change: search boxes
+  // rewrite the URL as you type, and access running out mid-lecture shouldn't
+  // cut the lecture off
+  useEffect(() => {
+    if (fromShortener) return;
+
+    // Check if user already has access
+    const accessValid = checkAccess();
+    setHasAccess(accessValid);
+    setIsChecking(false);
+
+    // Auto-redirect after brief delay if no access
+    if (!accessValid) {
+      const redirectTimeout = setTimeout(() => {
+        redirectToShortener();
+      }, 2000); // Wait 2 seconds before redirect
+      return () => clearTimeout(redirectTimeout);
     }
-  }, []);
+  }, [fromShortener]);
 
   if (isChecking) {
     return (
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import type { CaptionBackground, CaptionSize } from '@/lib/captions';
+
+interface CaptionsOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  size: CaptionSize;
+  background: CaptionBackground;
+}
+
+const sizeClasses: Record<CaptionSize, string> = {
+  small: 'text-sm md:text-base',
+  medium: 'text-base md:text-xl',
+  large: 'text-lg md:text-3xl',
+};
+
+const backgroundClasses: Record<CaptionBackground, string> = {
+  none: '[text-shadow:0_0_4px_black,0_0_2px_black]',
+  translucent: 'bg-black/60',
+  solid: 'bg-black',
+};
+
+// Strip WebVTT markup such as <i>, <c.yellow> or <v Speaker>
+const cueText = (cue: TextTrackCue) => ((cue as VTTCue).text || '').replace(/<[^>]+>/g, '');
+
+// Renders cues of the enabled text track above the custom controls, so they
+// aren't hidden behind the control bar and can be styled
+const CaptionsOverlay = ({ videoRef, size, background }: CaptionsOverlayProps) => {
+  const [lines, setLines] = useState<string[]>([]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let activeTrack: TextTrack | null = null;
+
+    const updateCues = () => {
+      const cues = activeTrack?.activeCues;
+      setLines(cues ? Array.from(cues).map(cueText).filter(Boolean) : []);
+    };
+
+    // Follow whichever subtitle track is currently enabled
+    const attachTrack = () => {
+      const nextTrack = Array.from(video.textTracks).find(track =>
+        (track.kind === 'subtitles' || track.kind === 'captions') && track.mode !== 'disabled'
+      ) || null;
+
+      // We draw the cues ourselves, so never let the browser render them too
+      if (nextTrack && nextTrack.mode === 'showing') {
+        nextTrack.mode = 'hidden';
+      }
+      if (nextTrack === activeTrack) return;
+
+      activeTrack?.removeEventListener('cuechange', updateCues);
+      activeTrack = nextTrack;
+      activeTrack?.addEventListener('cuechange', updateCues);
+      updateCues();
+    };
+
+    video.textTracks.addEventListener('change', attachTrack);
+    video.textTracks.addEventListener('addtrack', attachTrack);
+    video.textTracks.addEventListener('removetrack', attachTrack);
+    attachTrack();
+
+    return () => {
+      video.textTracks.removeEventListener('change', attachTrack);
+      video.textTracks.removeEventListener('addtrack', attachTrack);
+      video.textTracks.removeEventListener('removetrack', attachTrack);
+      activeTrack?.removeEventListener('cuechange', updateCues);
+    };
+  }, [videoRef]);
+
+  if (lines.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-24 left-0 right-0 flex flex-col items-center gap-1 px-4 pointer-events-none">
+      {lines.map((line, index) => (
+        <span
+          key={index}
+          className={`px-2 py-0.5 rounded text-white text-center whitespace-pre-line ${sizeClasses[size]} ${backgroundClasses[background]}`}
+        >
+          {line}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default CaptionsOverlay;
@@ -0,0 +1,35 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, RotateCcw } from 'lucide-react';
+import { CatalogValidationError } from '@/lib/catalog';
+
+interface CatalogErrorProps {
+  // What failed to load, e.g. "lectures"
+  what: string;
+  error: Error | null;
+  retrying: boolean;
+  onRetry: () => void;
+}
+
+// Shown in place of a catalog grid when it couldn't be loaded at all
+const CatalogError = ({ what, error, retrying, onRetry }: CatalogErrorProps) => {
+  return (
+    <Card className="shadow-soft">
+      <CardContent className="text-center py-12">
+        <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">Couldn't load {what}</h3>
+        <p className="text-muted-foreground mb-4">
+          {error instanceof CatalogValidationError
+            ? 'The catalog file is invalid. Please let us know.'
+            : 'Check your connection and try again.'}
+        </p>
+        <Button variant="outline" onClick={onRetry} disabled={retrying}>
+          <RotateCcw className={`h-4 w-4 mr-2 ${retrying ? 'animate-spin' : ''}`} />
+          {retrying ? 'Retrying...' : 'Retry'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CatalogError;
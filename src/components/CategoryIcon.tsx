@@ -0,0 +1,46 @@
+import {
+  BookOpen,
+  CheckCheck,
+  Combine,
+  Folder,
+  FolderOpen,
+  Languages,
+  Link,
+  PenLine,
+  Puzzle,
+  Repeat,
+  Sparkles,
+  SpellCheck,
+  type LucideIcon,
+} from 'lucide-react';
+import { findCategoryRule } from '@/lib/categories';
+
+// Icons the category rules can name; listed explicitly so the bundle only
+// carries these rather than all of lucide-react
+const ICONS: Record<string, LucideIcon> = {
+  BookOpen,
+  CheckCheck,
+  Combine,
+  Folder,
+  FolderOpen,
+  Languages,
+  Link,
+  PenLine,
+  Puzzle,
+  Repeat,
+  Sparkles,
+  SpellCheck,
+};
+
+interface CategoryIconProps {
+  // Category name as returned by getLectureCategory / getNoteCategory
+  category: string;
+  className?: string;
+}
+
+const CategoryIcon = ({ category, className }: CategoryIconProps) => {
+  const Icon = ICONS[findCategoryRule(category)?.icon ?? ''] ?? Folder;
+  return <Icon className={className} />;
+};
+
+export default CategoryIcon;
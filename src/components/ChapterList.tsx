@@ -0,0 +1,41 @@
+import { ListOrdered } from 'lucide-react';
+import type { Chapter } from '@/lib/chapters';
+import { formatTime } from '@/lib/time';
+
+interface ChapterListProps {
+  chapters: Chapter[];
+  currentIndex: number;
+  onSelect: (chapter: Chapter) => void;
+}
+
+// Chapter panel shown under the player
+const ChapterList = ({ chapters, currentIndex, onSelect }: ChapterListProps) => {
+  return (
+    <div className="rounded-lg border border-border">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+        <ListOrdered className="h-4 w-4 text-primary" />
+        <h4 className="text-sm font-semibold">Chapters</h4>
+        <span className="text-xs text-muted-foreground">({chapters.length})</span>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto p-1">
+        {chapters.map((chapter, index) => (
+          <button
+            key={`${chapter.start}-${chapter.title}`}
+            onClick={() => onSelect(chapter)}
+            className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm rounded hover:bg-accent ${
+              index === currentIndex ? 'bg-accent font-medium' : ''
+            }`}
+          >
+            <span className="text-xs font-mono text-primary w-12 flex-shrink-0">
+              {formatTime(chapter.start)}
+            </span>
+            <span className="line-clamp-1">{chapter.title}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ChapterList;
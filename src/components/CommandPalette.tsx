@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTheme } from 'next-themes';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { BookOpen, FileText, History, Moon, PlayCircle, Sun } from 'lucide-react';
+import { useLectures, useNotes } from '@/hooks/use-catalog';
+import { Lecture, getLectureCategory, getLectureId } from '@/lib/lectures';
+import { Note, getNoteCategory, getNoteId } from '@/lib/notes';
+import { createSearchIndex, type HighlightRange, type SearchField } from '@/lib/search';
+import { storage } from '@/lib/storage';
+import { getLastLectureId, getSavedPosition } from '@/lib/watch-history';
+import HighlightedText from './HighlightedText';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPlayLecture: (lecture: Lecture, startTime?: number) => void;
+  onOpenNote: (note: Note) => void;
+}
+
+type PaletteEntry =
+  | { id: string; kind: 'lecture'; title: string; lecture: Lecture }
+  | { id: string; kind: 'note'; title: string; note: Note }
+  | { id: string; kind: 'action'; title: string; keywords: string; icon: ReactNode; run: () => void };
+
+const MAX_RESULTS = 8;
+const MAX_RECENT = 5;
+
+const SEARCH_FIELDS: SearchField<PaletteEntry>[] = [
+  { name: 'title', weight: 1, get: entry => entry.title },
+  {
+    name: 'keywords',
+    weight: 0.8,
+    get: entry => entry.kind === 'action' ? entry.keywords : entry.kind === 'lecture' ? entry.lecture.tags?.join(' ') : undefined,
+  },
+];
+
+const rememberEntry = (id: string) => {
+  const recent = storage.get('command_palette_recent') ?? [];
+  storage.set('command_palette_recent', [id, ...recent.filter(entry => entry !== id)].slice(0, MAX_RECENT));
+};
+
+// Ctrl/Cmd+K palette searching lectures, notes and app actions together
+const CommandPalette = ({ open, onOpenChange, onPlayLecture, onOpenNote }: CommandPaletteProps) => {
+  const navigate = useNavigate();
+  const { resolvedTheme, setTheme } = useTheme();
+  const { data: lectures = [] } = useLectures();
+  const { data: notes = [] } = useNotes();
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Start from an empty query each time
+  useEffect(() => {
+    if (!open) setQuery('');
+  }, [open]);
+
+  const catalogEntries = useMemo<PaletteEntry[]>(() => [
+    ...lectures.map(lecture => ({
+      id: `lecture:${getLectureId(lecture)}`,
+      kind: 'lecture' as const,
+      title: lecture.title,
+      lecture,
+    })),
+    ...notes.map(note => ({
+      id: `note:${getNoteId(note)}`,
+      kind: 'note' as const,
+      title: note.title,
+      note,
+    })),
+  ], [lectures, notes]);
+  const catalogIndex = useMemo(() => createSearchIndex(catalogEntries, SEARCH_FIELDS), [catalogEntries]);
+
+  const lastLectureId = open ? getLastLectureId() : null;
+  const lastLecture = lectures.find(lecture => getLectureId(lecture) === lastLectureId);
+  const isDarkMode = resolvedTheme === 'dark';
+
+  const actions: PaletteEntry[] = [
+    ...(lastLecture ? [{
+      id: 'action:continue',
+      kind: 'action' as const,
+      title: `Continue ${lastLecture.title}`,
+      keywords: 'continue resume last lecture',
+      icon: <History />,
+      run: () => onPlayLecture(lastLecture, getSavedPosition(getLectureId(lastLecture)) ?? undefined),
+    }] : []),
+    {
+      id: 'action:theme',
+      kind: 'action',
+      title: isDarkMode ? 'Switch to light theme' : 'Switch to dark theme',
+      keywords: 'theme dark light mode',
+      icon: isDarkMode ? <Sun /> : <Moon />,
+      run: () => setTheme(isDarkMode ? 'light' : 'dark'),
+    },
+    {
+      id: 'action:lectures',
+      kind: 'action',
+      title: 'Browse lectures',
+      keywords: 'lectures videos home',
+      icon: <PlayCircle />,
+      run: () => navigate('/lectures'),
+    },
+    {
+      id: 'action:notes',
+      kind: 'action',
+      title: 'Browse notes',
+      keywords: 'notes pdf study material',
+      icon: <BookOpen />,
+      run: () => navigate('/notes'),
+    },
+  ];
+
+  const isSearching = query.trim() !== '';
+  const catalogMatches = isSearching ? catalogIndex.search(query) : [];
+  const lectureMatches = catalogMatches.filter(match => match.item.kind === 'lecture').slice(0, MAX_RESULTS);
+  const noteMatches = catalogMatches.filter(match => match.item.kind === 'note').slice(0, MAX_RESULTS);
+  // An empty query matches every action
+  const actionMatches = createSearchIndex(actions, SEARCH_FIELDS).search(query);
+
+  const allEntries = [...actions, ...catalogEntries];
+  const recentEntries = isSearching ? [] : (storage.get('command_palette_recent') ?? [])
+    .map(id => allEntries.find(entry => entry.id === id))
+    .filter(Boolean);
+
+  const select = (entry: PaletteEntry) => {
+    rememberEntry(entry.id);
+    onOpenChange(false);
+    if (entry.kind === 'lecture') onPlayLecture(entry.lecture);
+    else if (entry.kind === 'note') onOpenNote(entry.note);
+    else entry.run();
+  };
+
+  // Recent and search results can list the same entry, so item values are
+  // prefixed with their group to keep cmdk's selection unambiguous
+  const renderItem = (entry: PaletteEntry, group: string, ranges?: HighlightRange[]) => (
+    <CommandItem key={entry.id} value={`${group}:${entry.id}`} onSelect={() => select(entry)}>
+      {entry.kind === 'lecture' ? <PlayCircle /> : entry.kind === 'note' ? <FileText /> : entry.icon}
+      <span className="ml-2 truncate">
+        <HighlightedText text={entry.title} ranges={ranges} />
+      </span>
+      {entry.kind !== 'action' && (
+        <CommandShortcut>
+          {entry.kind === 'lecture' ? getLectureCategory(entry.lecture) : getNoteCategory(entry.note)}
+        </CommandShortcut>
+      )}
+    </CommandItem>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search lectures, notes and actions</DialogTitle>
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5 [&_[cmdk-item]_svg]:shrink-0"
+        >
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search lectures, notes and actions..." />
+          <CommandList>
+            <CommandEmpty>No results found.</CommandEmpty>
+
+            {recentEntries.length > 0 && (
+              <CommandGroup heading="Recent">
+                {recentEntries.map(entry => renderItem(entry, 'recent'))}
+              </CommandGroup>
+            )}
+
+            {lectureMatches.length > 0 && (
+              <CommandGroup heading="Lectures">
+                {lectureMatches.map(({ item, highlights }) => renderItem(item, 'lectures', highlights.title))}
+              </CommandGroup>
+            )}
+
+            {noteMatches.length > 0 && (
+              <CommandGroup heading="Notes">
+                {noteMatches.map(({ item, highlights }) => renderItem(item, 'notes', highlights.title))}
+              </CommandGroup>
+            )}
+
+            {actionMatches.length > 0 && (
+              <CommandGroup heading="Actions">
+                {actionMatches.map(({ item, highlights }) => renderItem(item, 'actions', highlights.title))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
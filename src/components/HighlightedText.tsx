@@ -0,0 +1,28 @@
+import type { HighlightRange } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  // Sorted, non-overlapping ranges as returned by the search index
+  ranges?: HighlightRange[];
+}
+
+const HighlightedText = ({ text, ranges }: HighlightedTextProps) => {
+  if (!ranges?.length) return <>{text}</>;
+
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(<span key={`text-${position}`}>{text.slice(position, start)}</span>);
+    parts.push(
+      <mark key={`match-${start}`} className="rounded-sm bg-accent text-accent-foreground px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(<span key={`text-${position}`}>{text.slice(position)}</span>);
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
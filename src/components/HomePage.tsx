@@ -1,212 +1,350 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useMatch, useNavigate, useSearchParams } from 'react-router-dom';
+import { useTheme } from 'next-themes';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { BookOpen, PlayCircle, GraduationCap, Moon, Sun } from 'lucide-react';
+import { BookOpen, PlayCircle, GraduationCap, Moon, Sun, Search } from 'lucide-react';
+import CommandPalette from './CommandPalette';
 import LecturesSection from './LecturesSection';
 import NotesSection from './NotesSection';
 import VideoPlayer from './VideoPlayer';
 import heroImage from '@/assets/hero-education.jpg';
-
-interface Lecture {
-  title: string;
-  link: string;
-}
+import {
+  Lecture,
+  getLectureCategory,
+  getLectureId,
+  getLecturePath,
+  getNextLecture,
+  getPreviousLecture,
+} from '@/lib/lectures';
+import { Note, getNoteId } from '@/lib/notes';
+import { getQueuedNextId } from '@/lib/queue';
+import { parseTimestamp } from '@/lib/time';
+import { toast } from '@/hooks/use-toast';
+import { useWatchQueue } from '@/hooks/use-watch-queue';
+import { useLectures } from '@/hooks/use-catalog';
 
 const HomePage = () => {
-  const [activeTab, setActiveTab] = useState('lectures');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedVideo, setSelectedVideo] = useState<Lecture | null>(null);
-  const [isDarkMode, setIsDarkMode] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const lectureMatch = useMatch('/lectures/:lectureId');
+  const noteMatch = useMatch('/notes/:noteId');
+  const isNotesRoute = !!useMatch('/notes/*');
+  const activeTab = isNotesRoute ? 'notes' : 'lectures';
+
+  // Shared with LecturesSection through the query cache
+  const { data: allLectures = [], isSuccess: lecturesLoaded, isFetching: lecturesFetching } = useLectures();
+  // Keeps playing in the mini-player after leaving its /lectures/:lectureId route
+  const [playingLecture, setPlayingLecture] = useState<Lecture | null>(null);
+  const [autoPlay, setAutoPlay] = useState(false);
+  const { queue } = useWatchQueue();
+  const { resolvedTheme, setTheme } = useTheme();
+  const isDarkMode = resolvedTheme === 'dark';
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  // Where "minimize" returns to: the last page that wasn't a player, with its filters
+  const browsePathRef = useRef('/lectures');
+  // Each tab's last query string (search and filters), restored when switching back
+  const tabSearchRef = useRef<Record<string, string>>({});
+
+  const routeLectureId = lectureMatch?.params.lectureId;
+  const routeLecture = routeLectureId
+    ? allLectures.find(lecture => getLectureId(lecture) === routeLectureId) ?? null
+    : null;
+  const selectedVideo = routeLecture ?? playingLecture;
+  const isMiniPlayer = !!selectedVideo && !lectureMatch;
+
+  useEffect(() => {
+    if (routeLecture) setPlayingLecture(routeLecture);
+  }, [routeLecture]);
+
+  useEffect(() => {
+    if (lectureMatch) return;
+    browsePathRef.current = location.pathname + location.search;
+    tabSearchRef.current[activeTab] = location.search;
+  }, [lectureMatch, activeTab, location.pathname, location.search]);
+
+  // A stale or mistyped lecture link falls back to the grid, once a cached
+  // catalog has been checked against a fresh one
+  useEffect(() => {
+    if (!lecturesLoaded || lecturesFetching || !routeLectureId || routeLecture) return;
+    toast({
+      title: 'Lecture not found',
+      description: 'That lecture is no longer available.',
+      variant: 'destructive',
+    });
+    navigate('/lectures', { replace: true });
+  }, [lecturesLoaded, lecturesFetching, routeLectureId, routeLecture, navigate]);
 
   // Handle video selection
   const handleVideoSelect = (lecture: Lecture) => {
-    setSelectedVideo(lecture);
+    setAutoPlay(false);
+    navigate(getLecturePath(getLectureId(lecture)));
+  };
+
+  // Start a lecture straight away, e.g. from the command palette
+  const handlePlayLecture = (lecture: Lecture, startTime?: number) => {
+    setAutoPlay(true);
+    const path = getLecturePath(getLectureId(lecture));
+    navigate(startTime ? `${path}?t=${Math.floor(startTime)}` : path);
+  };
+
+  // Move on to the next lecture from the player's "Up next" card; the
+  // mini-player stays docked rather than taking over the page
+  const handlePlayNext = (lecture: Lecture) => {
+    setAutoPlay(true);
+    if (isMiniPlayer) {
+      setPlayingLecture(lecture);
+    } else {
+      navigate(getLecturePath(getLectureId(lecture)));
+    }
   };
 
-  // Go back to home from video player
+  // Go back to home from video player, to the grid as it was left with its
+  // search and filters
   const handleBackToHome = () => {
-    setSelectedVideo(null);
+    setPlayingLecture(null);
+    if (lectureMatch) navigate(browsePathRef.current);
+  };
+
+  // Opening or closing a note keeps the notes search
+  const handleNoteSelect = (note: Note | null) => {
+    navigate({
+      pathname: note ? `/notes/${encodeURIComponent(getNoteId(note))}` : '/notes',
+      search: tabSearchRef.current.notes ?? '',
+    });
+  };
+
+  const handleTabChange = (tab: string) => {
+    navigate(`/${tab}${tabSearchRef.current[tab] ?? ''}`);
   };
 
   // Toggle dark/light theme
   const toggleTheme = () => {
-    setIsDarkMode(!isDarkMode);
-    document.documentElement.classList.toggle('dark');
+    setTheme(isDarkMode ? 'light' : 'dark');
   };
 
-  // If user selected a video, show the player
-  if (selectedVideo) {
+  // The player stays in one place in the tree whether it fills the page or
+  // is docked as a mini-player, so switching never restarts the stream
+  const renderPlayer = () => {
+    if (!selectedVideo) return null;
+
+    // Queued lectures play first, then the catalog order takes over
+    const queuedNextId = getQueuedNextId(queue, getLectureId(selectedVideo));
+    const nextLecture = allLectures.find(lecture => getLectureId(lecture) === queuedNextId)
+      || getNextLecture(allLectures, selectedVideo);
+
     return (
       <VideoPlayer
+        key={getLectureId(selectedVideo)}
+        lectureId={getLectureId(selectedVideo)}
         title={selectedVideo.title}
+        category={getLectureCategory(selectedVideo)}
         url={selectedVideo.link}
+        subtitles={selectedVideo.subtitles}
+        chapters={selectedVideo.chapters}
+        thumbnails={selectedVideo.thumbnails}
+        notesId={selectedVideo.notesId}
+        autoPlay={autoPlay}
+        startTime={routeLecture ? parseTimestamp(searchParams.get('t')) : null}
+        nextLecture={nextLecture}
+        previousLecture={getPreviousLecture(allLectures, selectedVideo)}
+        lectures={allLectures}
+        onPlayLecture={handlePlayNext}
+        minimized={isMiniPlayer}
+        onMinimize={() => navigate(browsePathRef.current)}
+        onExpand={() => navigate(getLecturePath(getLectureId(selectedVideo)))}
         onBack={handleBackToHome}
       />
     );
-  }
+  };
 
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
-        <div className="max-w-7xl mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="p-2 bg-hero-gradient rounded-lg">
-                <GraduationCap className="h-6 w-6 text-white" />
-              </div>
-              <div>
-                <h1 className="text-xl font-bold">Learning Platform</h1>
-                <p className="text-sm text-muted-foreground">Master Shahab Academy</p>
+    <>
+      {/* Home stays hidden while the player fills the page */}
+      {(!selectedVideo || isMiniPlayer) && (
+        <div className="min-h-screen bg-background">
+          {/* Header */}
+          <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+            <div className="max-w-7xl mx-auto px-4 py-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-hero-gradient rounded-lg">
+                    <GraduationCap className="h-6 w-6 text-white" />
+                  </div>
+                  <div>
+                    <h1 className="text-xl font-bold">Learning Platform</h1>
+                    <p className="text-sm text-muted-foreground">Master Shahab Academy</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPaletteOpen(true)}
+                    className="text-muted-foreground"
+                  >
+                    <Search className="h-4 w-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Search</span>
+                    <kbd className="ml-3 hidden sm:inline rounded border bg-muted px-1.5 font-mono text-xs">
+                      {navigator.platform.startsWith('Mac') ? '⌘K' : 'Ctrl K'}
+                    </kbd>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={toggleTheme}
+                    className="hover:bg-muted"
+                  >
+                    {isDarkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+                  </Button>
+                </div>
               </div>
             </div>
+          </header>
 
-            <div className="flex items-center gap-4">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={toggleTheme}
-                className="hover:bg-muted"
-              >
-                {isDarkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
-              </Button>
+          {/* Main Content */}
+          <main className="max-w-7xl mx-auto px-4 py-8">
+            {/* Welcome Section */}
+            <div className="mb-8">
+              <div className="bg-hero-gradient rounded-xl p-8 text-white shadow-elegant relative overflow-hidden">
+                <div 
+                  className="absolute inset-0 opacity-10 bg-cover bg-center" 
+                  style={{ backgroundImage: `url(${heroImage})` }}
+                />
+                <div className="relative max-w-2xl">
+                  <h2 className="text-3xl font-bold mb-4">
+                    Welcome to Your Learning Journey
+                  </h2>
+                  <p className="text-lg text-white/90 mb-6">
+                    Access comprehensive lectures and notes designed to help you excel. 
+                    Continue from where you left off or explore new topics.
+                  </p>
+                  <div className="flex items-center gap-6 text-sm">
+                    <div className="flex items-center gap-2">
+                      <PlayCircle className="h-5 w-5" />
+                      <span>Video Lectures</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <BookOpen className="h-5 w-5" />
+                      <span>Study Notes</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 py-8">
-        {/* Welcome Section */}
-        <div className="mb-8">
-          <div className="bg-hero-gradient rounded-xl p-8 text-white shadow-elegant relative overflow-hidden">
-            <div 
-              className="absolute inset-0 opacity-10 bg-cover bg-center" 
-              style={{ backgroundImage: `url(${heroImage})` }}
-            />
-            <div className="relative max-w-2xl">
-              <h2 className="text-3xl font-bold mb-4">
-                Welcome to Your Learning Journey
-              </h2>
-              <p className="text-lg text-white/90 mb-6">
-                Access comprehensive lectures and notes designed to help you excel. 
-                Continue from where you left off or explore new topics.
-              </p>
-              <div className="flex items-center gap-6 text-sm">
-                <div className="flex items-center gap-2">
-                  <PlayCircle className="h-5 w-5" />
-                  <span>Video Lectures</span>
+
+            {/* Navigation Tabs */}
+            <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-8">
+              <div className="flex items-center justify-center">
+                <TabsList className="grid w-full max-w-md grid-cols-2 bg-muted/50">
+                  <TabsTrigger 
+                    value="lectures" 
+                    className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                  >
+                    <PlayCircle className="h-4 w-4" />
+                    Lectures
+                  </TabsTrigger>
+                  <TabsTrigger 
+                    value="notes"
+                    className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                  >
+                    <BookOpen className="h-4 w-4" />
+                    Notes
+                  </TabsTrigger>
+                </TabsList>
+              </div>
+
+              {/* Lectures Tab */}
+              <TabsContent value="lectures" className="space-y-6">
+                <div className="text-center mb-6">
+                  <h3 className="text-2xl font-semibold mb-2">Video Lectures</h3>
+                  <p className="text-muted-foreground max-w-2xl mx-auto">
+                    Watch high-quality lectures with automatic progress tracking. 
+                    Continue from where you left off on any device.
+                  </p>
                 </div>
-                <div className="flex items-center gap-2">
-                  <BookOpen className="h-5 w-5" />
-                  <span>Study Notes</span>
+
+                <LecturesSection
+                  onVideoSelect={handleVideoSelect}
+                />
+              </TabsContent>
+
+              {/* Notes Tab */}
+              <TabsContent value="notes" className="space-y-6">
+                <div className="text-center mb-6">
+                  <h3 className="text-2xl font-semibold mb-2">Study Notes</h3>
+                  <p className="text-muted-foreground max-w-2xl mx-auto">
+                    Download or view comprehensive study materials, practice sheets, 
+                    and supplementary resources for each lecture.
+                  </p>
                 </div>
+
+                <NotesSection
+                  selectedNoteId={noteMatch?.params.noteId}
+                  onNoteSelect={handleNoteSelect}
+                />
+              </TabsContent>
+            </Tabs>
+
+            {/* Footer Stats */}
+            <div className="mt-12 pt-8 border-t border-border">
+              <div className="grid gap-6 md:grid-cols-3">
+                <Card className="shadow-soft bg-card-gradient">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <PlayCircle className="h-5 w-5 text-primary" />
+                      Video Content
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-2xl font-bold text-primary">70+</p>
+                    <p className="text-sm text-muted-foreground">High-quality lectures</p>
+                  </CardContent>
+                </Card>
+
+                <Card className="shadow-soft bg-card-gradient">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <BookOpen className="h-5 w-5 text-primary" />
+                      Study Materials
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-2xl font-bold text-primary">15+</p>
+                    <p className="text-sm text-muted-foreground">Notes and resources</p>
+                  </CardContent>
+                </Card>
+
+                <Card className="shadow-soft bg-card-gradient">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <GraduationCap className="h-5 w-5 text-primary" />
+                      Learning Path
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-2xl font-bold text-primary">24/7</p>
+                    <p className="text-sm text-muted-foreground">Access available</p>
+                  </CardContent>
+                </Card>
               </div>
             </div>
-          </div>
+          </main>
         </div>
+      )}
 
-        {/* Navigation Tabs */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-8">
-          <div className="flex items-center justify-center">
-            <TabsList className="grid w-full max-w-md grid-cols-2 bg-muted/50">
-              <TabsTrigger 
-                value="lectures" 
-                className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
-              >
-                <PlayCircle className="h-4 w-4" />
-                Lectures
-              </TabsTrigger>
-              <TabsTrigger 
-                value="notes"
-                className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
-              >
-                <BookOpen className="h-4 w-4" />
-                Notes
-              </TabsTrigger>
-            </TabsList>
-          </div>
-
-          {/* Lectures Tab */}
-          <TabsContent value="lectures" className="space-y-6">
-            <div className="text-center mb-6">
-              <h3 className="text-2xl font-semibold mb-2">Video Lectures</h3>
-              <p className="text-muted-foreground max-w-2xl mx-auto">
-                Watch high-quality lectures with automatic progress tracking. 
-                Continue from where you left off on any device.
-              </p>
-            </div>
+      {renderPlayer()}
 
-            <LecturesSection
-              searchTerm={searchTerm}
-              onSearchChange={setSearchTerm}
-              onVideoSelect={handleVideoSelect}
-            />
-          </TabsContent>
-
-          {/* Notes Tab */}
-          <TabsContent value="notes" className="space-y-6">
-            <div className="text-center mb-6">
-              <h3 className="text-2xl font-semibold mb-2">Study Notes</h3>
-              <p className="text-muted-foreground max-w-2xl mx-auto">
-                Download or view comprehensive study materials, practice sheets, 
-                and supplementary resources for each lecture.
-              </p>
-            </div>
-
-            <NotesSection
-              searchTerm={searchTerm}
-              onSearchChange={setSearchTerm}
-            />
-          </TabsContent>
-        </Tabs>
-
-        {/* Footer Stats */}
-        <div className="mt-12 pt-8 border-t border-border">
-          <div className="grid gap-6 md:grid-cols-3">
-            <Card className="shadow-soft bg-card-gradient">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <PlayCircle className="h-5 w-5 text-primary" />
-                  Video Content
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-2xl font-bold text-primary">70+</p>
-                <p className="text-sm text-muted-foreground">High-quality lectures</p>
-              </CardContent>
-            </Card>
-
-            <Card className="shadow-soft bg-card-gradient">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <BookOpen className="h-5 w-5 text-primary" />
-                  Study Materials
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-2xl font-bold text-primary">15+</p>
-                <p className="text-sm text-muted-foreground">Notes and resources</p>
-              </CardContent>
-            </Card>
-
-            <Card className="shadow-soft bg-card-gradient">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <GraduationCap className="h-5 w-5 text-primary" />
-                  Learning Path
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-2xl font-bold text-primary">24/7</p>
-                <p className="text-sm text-muted-foreground">Access available</p>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
-      </main>
-    </div>
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        onPlayLecture={handlePlayLecture}
+        onOpenNote={handleNoteSelect}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,37 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { KeyboardShortcut } from '@/hooks/use-keyboard-shortcuts';
+
+interface KeyboardShortcutsHelpProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shortcuts: KeyboardShortcut[];
+}
+
+// Overlay listing the player's keyboard shortcuts, opened with "?"
+const KeyboardShortcutsHelp = ({ open, onOpenChange, shortcuts }: KeyboardShortcutsHelpProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts are paused while you type in a search box.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          {shortcuts.map((shortcut) => (
+            <div key={shortcut.label} className="flex items-center justify-between gap-4 py-1.5 text-sm">
+              <span className="text-muted-foreground">{shortcut.description}</span>
+              <kbd className="rounded border bg-muted px-2 py-0.5 font-mono text-xs whitespace-nowrap">
+                {shortcut.label}
+              </kbd>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsHelp;
@@ -0,0 +1,155 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Toggle } from '@/components/ui/toggle';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from '@/components/ui/drawer';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { Category } from '@/lib/categories';
+import {
+  DEFAULT_LECTURE_FILTERS,
+  LectureFilters,
+  LectureSort,
+  countActiveFilters,
+} from '@/lib/lecture-filters';
+import type { WatchStatus } from '@/lib/watch-history';
+import CategoryIcon from './CategoryIcon';
+
+interface LectureFilterBarProps {
+  filters: LectureFilters;
+  onChange: (filters: LectureFilters) => void;
+  // Categories present in the catalog, in display order
+  categories: (Category & { count: number })[];
+}
+
+const STATUS_LABELS: Record<WatchStatus, string> = {
+  'unwatched': 'Not started',
+  'in-progress': 'In progress',
+  'completed': 'Completed',
+};
+
+const SORT_LABELS: Record<LectureSort, string> = {
+  number: 'Lecture number',
+  title: 'Title (A-Z)',
+  recent: 'Recently watched',
+};
+
+// Category chips plus status and sort pickers; collapses into a drawer on phones
+const LectureFilterBar = ({ filters, onChange, categories }: LectureFilterBarProps) => {
+  const isMobile = useIsMobile();
+  const activeCount = countActiveFilters(filters);
+
+  const toggleCategory = (id: string, selected: boolean) => {
+    onChange({
+      ...filters,
+      categories: selected
+        ? [...filters.categories, id]
+        : filters.categories.filter(category => category !== id),
+    });
+  };
+
+  const categoryChips = (
+    <div className="flex flex-wrap gap-2">
+      {categories.map(category => (
+        <Toggle
+          key={category.id}
+          variant="outline"
+          size="sm"
+          pressed={filters.categories.includes(category.id)}
+          onPressedChange={(selected) => toggleCategory(category.id, selected)}
+          className="gap-1.5 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+        >
+          <CategoryIcon category={category.name} className="h-3.5 w-3.5" />
+          {category.name}
+          <span className="text-xs opacity-70">{category.count}</span>
+        </Toggle>
+      ))}
+    </div>
+  );
+
+  const pickers = (
+    <>
+      <Select
+        value={filters.status ?? 'all'}
+        onValueChange={(value) => onChange({ ...filters, status: value === 'all' ? null : value as WatchStatus })}
+      >
+        <SelectTrigger className="w-full md:w-40" aria-label="Watch status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All lectures</SelectItem>
+          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={filters.sort} onValueChange={(value) => onChange({ ...filters, sort: value as LectureSort })}>
+        <SelectTrigger className="w-full md:w-44" aria-label="Sort by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(SORT_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+
+  const clearButton = activeCount > 0 && (
+    <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_LECTURE_FILTERS)}>
+      <X className="h-4 w-4 mr-1" />
+      Clear
+    </Button>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer>
+        <DrawerTrigger asChild>
+          <Button variant="outline" className="w-full">
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Filter & sort
+            {activeCount > 0 && <Badge className="ml-2">{activeCount}</Badge>}
+          </Button>
+        </DrawerTrigger>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle>Filter & sort lectures</DrawerTitle>
+          </DrawerHeader>
+          <div className="space-y-4 px-4">
+            {categoryChips}
+            {pickers}
+          </div>
+          <DrawerFooter>
+            <DrawerClose asChild>
+              <Button>Show results</Button>
+            </DrawerClose>
+            {clearButton}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-4">
+      <div className="flex-1">{categoryChips}</div>
+      <div className="flex items-center gap-2">
+        {pickers}
+        {clearButton}
+      </div>
+    </div>
+  );
+};
+
+export default LectureFilterBar;
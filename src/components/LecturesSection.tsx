@@ -1,115 +1,115 @@
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Play, Search, Clock, BookOpen } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Play, Search, Clock, BookOpen, ListPlus, ListChecks, CheckCircle2, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { useWatchQueue } from '@/hooks/use-watch-queue';
+import { useLectures } from '@/hooks/use-catalog';
+import { useSearchQuery } from '@/hooks/use-search-query';
+import { groupByCategory } from '@/lib/categories';
+import {
+  Lecture,
+  getLectureCategory,
+  getLectureId,
+  getLectureNumber,
+  groupLectures,
+} from '@/lib/lectures';
+import {
+  LectureFilters,
+  countActiveFilters,
+  filterLectures,
+  parseLectureFilters,
+  sortLectures,
+  writeLectureFilters,
+} from '@/lib/lecture-filters';
+import { createSearchIndex, rankGroups, type SearchField } from '@/lib/search';
+import { formatTime } from '@/lib/time';
+import {
+  clearSavedPosition,
+  getCompletionThreshold,
+  getCoverage,
+  getSavedPosition,
+  getWatchRecord,
+} from '@/lib/watch-history';
 
-interface Lecture {
-  title: string;
-  link: string;
-}
+import CatalogError from './CatalogError';
+import CategoryIcon from './CategoryIcon';
+import HighlightedText from './HighlightedText';
+import LectureFilterBar from './LectureFilterBar';
 
 interface LecturesSectionProps {
-  searchTerm: string;
-  onSearchChange: (term: string) => void;
   onVideoSelect: (lecture: Lecture) => void;
 }
 
-const LecturesSection = ({ searchTerm, onSearchChange, onVideoSelect }: LecturesSectionProps) => {
-  const [lectures, setLectures] = useState<Lecture[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filteredLectures, setFilteredLectures] = useState<Lecture[]>([]);
-
-  useEffect(() => {
-    const loadLectures = async () => {
-      try {
-        const response = await fetch('/data/master-shahablectures.json');
-        const lecturesData: Lecture[] = await response.json();
-        setLectures(lecturesData);
-        setFilteredLectures(lecturesData);
-      } catch (error) {
-        console.error('Error loading lectures:', error);
-        toast({
-          title: 'Error',
-          description: 'Failed to load lectures. Please try again.',
-          variant: 'destructive',
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
+const SEARCH_FIELDS: SearchField<Lecture>[] = [
+  { name: 'title', weight: 1, get: lecture => lecture.title },
+  { name: 'tags', weight: 0.8, get: lecture => lecture.tags?.join(' ') },
+  { name: 'description', weight: 0.6, get: lecture => lecture.description },
+];
 
-    loadLectures();
-  }, []);
+const LecturesSection = ({ onVideoSelect }: LecturesSectionProps) => {
+  const { data: lectures = [], isPending: loading, isError, error, isFetching, refetch } = useLectures();
+  const { queue, addToQueue, removeFromQueue } = useWatchQueue();
+  const [searchTerm, setSearchTerm] = useSearchQuery();
 
-  useEffect(() => {
-    if (searchTerm.trim() === '') {
-      setFilteredLectures(lectures);
-    } else {
-      const filtered = lectures.filter(lecture =>
-        lecture.title.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      setFilteredLectures(filtered);
-    }
-  }, [searchTerm, lectures]);
+  const searchIndex = useMemo(() => createSearchIndex(lectures, SEARCH_FIELDS), [lectures]);
+  const isSearching = searchTerm.trim() !== '';
+  const matches = new Map(isSearching ? searchIndex.search(searchTerm).map(match => [match.item, match]) : []);
 
-  const getCategoryFromTitle = (title: string) => {
-    if (title.toLowerCase().includes('anuvad') || title.toLowerCase().includes('अनुवाद')) {
-      return 'Anuvad';
-    }
-    if (title.toLowerCase().includes('vachya') || title.toLowerCase().includes('वाच्य')) {
-      return 'Vachya';
-    }
-    if (title.toLowerCase().includes('chapter')) {
-      const match = title.match(/chapter\s+(\d+)/i);
-      return match ? `Chapter ${match[1]}` : 'Chapters';
-    }
-    if (title.toLowerCase().includes('solution') || title.toLowerCase().includes('dpp')) {
-      return 'Solutions';
-    }
-    if (title.toLowerCase().includes('practice')) {
-      return 'Practice';
-    }
-    return 'General';
+  // Kept in the query string so a filtered view can be bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseLectureFilters(searchParams);
+  const setFilters = (next: LectureFilters) => {
+    setSearchParams(params => writeLectureFilters(params, next), { replace: true });
   };
+  const isFiltered = countActiveFilters(filters) > 0;
+  const categories = groupByCategory(lectures).map(({ category, entries }) => ({ ...category, count: entries.length }));
 
-  const getLectureNumber = (title: string) => {
-    const match = title.match(/lec\s+(\d+)/i);
-    return match ? parseInt(match[1]) : null;
-  };
+  const filteredLectures = filterLectures(isSearching ? [...matches.keys()] : lectures, filters);
+
+  // Bumped to re-read saved positions after one is cleared
+  const [, setProgressVersion] = useState(0);
 
   const getLastWatchedTime = (lecture: Lecture) => {
-    const videoId = btoa(lecture.link).substring(0, 20);
-    const progress = localStorage.getItem(`video_progress_${videoId}`);
-    return progress ? parseFloat(progress) : 0;
+    return getSavedPosition(getLectureId(lecture)) ?? 0;
   };
 
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  const clearLastWatchedTime = (lecture: Lecture) => {
+    clearSavedPosition(getLectureId(lecture));
+    setProgressVersion(version => version + 1);
+    toast({
+      title: 'Position Cleared',
+      description: `${lecture.title} will start from the beginning.`,
+    });
   };
 
-  const groupedLectures = filteredLectures.reduce((acc, lecture) => {
-    const category = getCategoryFromTitle(lecture.title);
-    if (!acc[category]) acc[category] = [];
-    acc[category].push(lecture);
-    return acc;
-  }, {} as Record<string, Lecture[]>);
+  const toggleQueued = (lecture: Lecture) => {
+    const lectureId = getLectureId(lecture);
+    if (queue.includes(lectureId)) {
+      removeFromQueue(lectureId);
+      return;
+    }
 
-  // Sort lectures within each category
-  Object.keys(groupedLectures).forEach(category => {
-    groupedLectures[category].sort((a, b) => {
-      const aNum = getLectureNumber(a.title);
-      const bNum = getLectureNumber(b.title);
-      if (aNum !== null && bNum !== null) {
-        return aNum - bNum;
-      }
-      return a.title.localeCompare(b.title);
+    addToQueue(lectureId);
+    toast({
+      title: 'Added to Queue',
+      description: lecture.title,
     });
-  });
+  };
+
+  // Sorting by title or recency lists every lecture in one run instead of by category
+  const groupedLectures: [string, Lecture[]][] = filters.sort === 'title'
+    ? [['All lectures', sortLectures(filteredLectures, 'title')]]
+    : filters.sort === 'recent'
+      ? [['Recently watched', sortLectures(filteredLectures, 'recent')]]
+      : isSearching
+        ? rankGroups(Object.entries(groupLectures(filteredLectures)), lecture => matches.get(lecture)?.score ?? 0)
+        : Object.entries(groupLectures(filteredLectures));
+  const completionThreshold = getCompletionThreshold();
 
   if (loading) {
     return (
@@ -149,7 +149,7 @@ const LecturesSection = ({ searchTerm, onSearchChange, onVideoSelect }: Lectures
           <Input
             placeholder="Search lectures..."
             value={searchTerm}
-            onChange={(e) => onSearchChange(e.target.value)}
+            onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
           />
         </div>
@@ -158,42 +158,77 @@ const LecturesSection = ({ searchTerm, onSearchChange, onVideoSelect }: Lectures
         </Badge>
       </div>
 
+      {lectures.length > 0 && (
+        <LectureFilterBar filters={filters} onChange={setFilters} categories={categories} />
+      )}
+
+      {isError && lectures.length === 0 && (
+        <CatalogError what="lectures" error={error} retrying={isFetching} onRetry={() => refetch()} />
+      )}
+
       {/* No Results */}
-      {filteredLectures.length === 0 && searchTerm && (
+      {filteredLectures.length === 0 && (searchTerm || isFiltered) && (
         <Card className="shadow-soft">
           <CardContent className="text-center py-12">
             <BookOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-semibold mb-2">No lectures found</h3>
             <p className="text-muted-foreground">
-              Try adjusting your search terms or browse all lectures.
+              Try adjusting your search terms or filters, or browse all lectures.
             </p>
           </CardContent>
         </Card>
       )}
 
       {/* Grouped Lectures */}
-      {Object.entries(groupedLectures).map(([category, categoryLectures]) => (
+      {groupedLectures.map(([category, categoryLectures]) => (
         <div key={category} className="space-y-4">
           <div className="flex items-center gap-2">
+            {filters.sort === 'number' && <CategoryIcon category={category} className="h-5 w-5 text-primary" />}
             <h2 className="text-xl font-semibold">{category}</h2>
             <Badge variant="outline">{categoryLectures.length}</Badge>
           </div>
 
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {categoryLectures.map((lecture, index) => {
+            {categoryLectures.map((lecture) => {
               const lastWatched = getLastWatchedTime(lecture);
+              // From the title: `order` is only the position within the category
               const lectureNum = getLectureNumber(lecture.title);
+              const isQueued = queue.includes(getLectureId(lecture));
+              const coverage = getCoverage(getWatchRecord(getLectureId(lecture)));
+              const isCompleted = coverage >= completionThreshold;
+              const highlights = matches.get(lecture)?.highlights;
               
               return (
-                <Card key={index} className="shadow-soft hover:shadow-elegant transition-all duration-300 cursor-pointer"
+                <Card key={getLectureId(lecture)} className="shadow-soft hover:shadow-elegant transition-all duration-300 cursor-pointer"
                       onClick={() => onVideoSelect(lecture)}>
                   <CardHeader className="pb-3">
                     <div className="flex items-start justify-between gap-2">
                       <div className="flex-1">
                         <CardTitle className="text-base font-semibold leading-tight line-clamp-2">
-                          {lecture.title}
+                          <HighlightedText text={lecture.title} ranges={highlights?.title} />
                         </CardTitle>
+                        {lecture.description && (
+                          <p className="mt-1 text-sm text-muted-foreground line-clamp-2">
+                            <HighlightedText text={lecture.description} ranges={highlights?.description} />
+                          </p>
+                        )}
                       </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 flex-shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleQueued(lecture);
+                        }}
+                        title={isQueued ? 'Remove from queue' : 'Add to queue'}
+                      >
+                        {isQueued ? (
+                          <ListChecks className="h-5 w-5 text-primary" />
+                        ) : (
+                          <ListPlus className="h-5 w-5 text-muted-foreground" />
+                        )}
+                      </Button>
                       <Play className="h-5 w-5 text-primary flex-shrink-0" />
                     </div>
                   </CardHeader>
@@ -206,20 +241,65 @@ const LecturesSection = ({ searchTerm, onSearchChange, onVideoSelect }: Lectures
                           HLS Stream
                         </Badge>
                         <Badge variant="outline" className="text-xs">
-                          {category}
+                          {getLectureCategory(lecture)}
                         </Badge>
-                        {lectureNum && (
+                        {lectureNum != null && (
+                          <Badge variant="outline" className="text-xs">
+                            #{lectureNum}
+                          </Badge>
+                        )}
+                        {lecture.durationSec && (
                           <Badge variant="outline" className="text-xs">
-                            Lecture {lectureNum}
+                            {formatTime(lecture.durationSec)}
+                          </Badge>
+                        )}
+                        {isCompleted && (
+                          <Badge className="text-xs">
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            Completed
                           </Badge>
                         )}
                       </div>
 
                       {/* Progress indicator */}
-                      {lastWatched > 0 && (
+                      {coverage > 0 && !isCompleted && (
+                        <div className="space-y-1">
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>{Math.round(coverage * 100)}% watched</span>
+                            {lastWatched > 0 && (
+                              <span className="flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                Continue from {formatTime(lastWatched)}
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    clearLastWatchedTime(lecture);
+                                  }}
+                                  className="ml-1 rounded p-0.5 hover:bg-muted hover:text-foreground"
+                                  title="Clear saved position"
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </span>
+                            )}
+                          </div>
+                          <Progress value={coverage * 100} className="h-1.5" />
+                        </div>
+                      )}
+                      {coverage === 0 && lastWatched > 0 && (
                         <div className="flex items-center gap-2 text-xs text-muted-foreground">
                           <Clock className="h-3 w-3" />
                           <span>Continue from {formatTime(lastWatched)}</span>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              clearLastWatchedTime(lecture);
+                            }}
+                            className="rounded p-0.5 hover:bg-muted hover:text-foreground"
+                            title="Clear saved position"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
                         </div>
                       )}
 
@@ -233,7 +313,7 @@ const LecturesSection = ({ searchTerm, onSearchChange, onVideoSelect }: Lectures
                         }}
                       >
                         <Play className="h-4 w-4 mr-2" />
-                        {lastWatched > 0 ? 'Continue Watching' : 'Start Watching'}
+                        {isCompleted ? 'Watch Again' : lastWatched > 0 ? 'Continue Watching' : 'Start Watching'}
                       </Button>
                     </div>
                   </CardContent>
@@ -248,7 +328,7 @@ const LecturesSection = ({ searchTerm, onSearchChange, onVideoSelect }: Lectures
       <Card className="shadow-soft bg-card-gradient">
         <CardContent className="p-4">
           <div className="flex items-center justify-between text-sm text-muted-foreground">
-            <span>Total categories: {Object.keys(groupedLectures).length}</span>
+            <span>Total categories: {categories.length}</span>
             <span>Total lectures: {lectures.length}</span>
           </div>
         </CardContent>
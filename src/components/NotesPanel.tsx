@@ -0,0 +1,32 @@
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ExternalLink, FileText, X } from 'lucide-react';
+import { Note } from '@/lib/notes';
+
+interface NotesPanelProps {
+  note: Note;
+  onClose: () => void;
+}
+
+// The lecture's notes PDF, shown beside the player in split view
+const NotesPanel = ({ note, onClose }: NotesPanelProps) => {
+  return (
+    <Card className="flex h-full flex-col overflow-hidden shadow-elegant">
+      <div className="flex items-center gap-2 border-b border-border px-4 py-2">
+        <FileText className="h-4 w-4 text-primary flex-shrink-0" />
+        <h4 className="flex-1 text-sm font-semibold line-clamp-1">{note.title}</h4>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild>
+          <a href={note.link} target="_blank" rel="noopener noreferrer" aria-label="Open in new tab">
+            <ExternalLink className="h-4 w-4" />
+          </a>
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose} aria-label="Hide notes">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <iframe src={note.link} title={note.title} className="min-h-[70vh] w-full flex-1 bg-muted" />
+    </Card>
+  );
+};
+
+export default NotesPanel;
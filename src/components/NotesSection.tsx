@@ -1,58 +1,57 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { FileText, Download, ExternalLink, Search } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-
-interface Note {
-  title: string;
-  link: string;
-}
+import { useNotes } from '@/hooks/use-catalog';
+import { useSearchQuery } from '@/hooks/use-search-query';
+import { groupByCategory } from '@/lib/categories';
+import { Note, getNoteId } from '@/lib/notes';
+import { createSearchIndex, rankGroups, type SearchField } from '@/lib/search';
+import CatalogError from './CatalogError';
+import CategoryIcon from './CategoryIcon';
+import HighlightedText from './HighlightedText';
+import NotesPanel from './NotesPanel';
 
 interface NotesSectionProps {
-  searchTerm: string;
-  onSearchChange: (term: string) => void;
+  // From /notes/:noteId; the note is shown in a viewer above the list
+  selectedNoteId?: string;
+  onNoteSelect: (note: Note | null) => void;
 }
 
-const NotesSection = ({ searchTerm, onSearchChange }: NotesSectionProps) => {
-  const [notes, setNotes] = useState<Note[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filteredNotes, setFilteredNotes] = useState<Note[]>([]);
+const SEARCH_FIELDS: SearchField<Note>[] = [
+  { name: 'title', weight: 1, get: note => note.title },
+];
+
+const NotesSection = ({ selectedNoteId, onNoteSelect }: NotesSectionProps) => {
+  const { data: notes = [], isPending: loading, isError, error, isFetching, refetch } = useNotes();
+  const [searchTerm, setSearchTerm] = useSearchQuery();
+
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const selectedNote = selectedNoteId ? notes.find(note => getNoteId(note) === selectedNoteId) : undefined;
 
   useEffect(() => {
-    const loadNotes = async () => {
-      try {
-        const response = await fetch('/data/master-shahab-notes.json');
-        const notesData: Note[] = await response.json();
-        setNotes(notesData);
-        setFilteredNotes(notesData);
-      } catch (error) {
-        console.error('Error loading notes:', error);
-        toast({
-          title: 'Error',
-          description: 'Failed to load notes. Please try again.',
-          variant: 'destructive',
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadNotes();
-  }, []);
+    if (selectedNote) viewerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [selectedNote]);
 
+  // A stale or mistyped link falls back to the list, once a cached catalog
+  // has been checked against a fresh one
   useEffect(() => {
-    if (searchTerm.trim() === '') {
-      setFilteredNotes(notes);
-    } else {
-      const filtered = notes.filter(note =>
-        note.title.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      setFilteredNotes(filtered);
-    }
-  }, [searchTerm, notes]);
+    if (loading || isFetching || isError || !selectedNoteId || selectedNote) return;
+    toast({
+      title: 'Note not found',
+      description: 'That note is no longer available.',
+      variant: 'destructive',
+    });
+    onNoteSelect(null);
+  }, [loading, isFetching, isError, selectedNoteId, selectedNote, onNoteSelect]);
+
+  const searchIndex = useMemo(() => createSearchIndex(notes, SEARCH_FIELDS), [notes]);
+  const isSearching = searchTerm.trim() !== '';
+  const matches = new Map(isSearching ? searchIndex.search(searchTerm).map(match => [match.item, match]) : []);
+  const filteredNotes = isSearching ? [...matches.keys()] : notes;
 
   const handleDownload = async (url: string, title: string) => {
     try {
@@ -74,42 +73,17 @@ const NotesSection = ({ searchTerm, onSearchChange }: NotesSectionProps) => {
     }
   };
 
-  const handleView = (url: string) => {
-    window.open(url, '_blank');
-  };
-
   const getFileType = (url: string) => {
     if (url.includes('.pdf')) return 'PDF';
     if (url.includes('jumpshare.com')) return 'Link';
     return 'File';
   };
 
-  const getCategoryFromTitle = (title: string) => {
-    if (title.toLowerCase().includes('anuvad') || title.toLowerCase().includes('अनुवाद')) {
-      return 'Anuvad';
-    }
-    if (title.toLowerCase().includes('vachya') || title.toLowerCase().includes('वाच्य')) {
-      return 'Vachya';
-    }
-    if (title.toLowerCase().includes('chapter')) {
-      const match = title.match(/chapter\s+(\d+)/i);
-      return match ? `Chapter ${match[1]}` : 'General';
-    }
-    if (title.toLowerCase().includes('practice') || title.toLowerCase().includes('dpp')) {
-      return 'Practice';
-    }
-    if (title.toLowerCase().includes('planner')) {
-      return 'Resources';
-    }
-    return 'General';
-  };
-
-  const groupedNotes = filteredNotes.reduce((acc, note) => {
-    const category = getCategoryFromTitle(note.title);
-    if (!acc[category]) acc[category] = [];
-    acc[category].push(note);
-    return acc;
-  }, {} as Record<string, Note[]>);
+  const categoryGroups = groupByCategory(filteredNotes)
+    .map(({ category, entries }) => [category.name, entries] as [string, Note[]]);
+  const groupedNotes = isSearching
+    ? rankGroups(categoryGroups, note => matches.get(note)?.score ?? 0)
+    : categoryGroups;
 
   if (loading) {
     return (
@@ -142,6 +116,12 @@ const NotesSection = ({ searchTerm, onSearchChange }: NotesSectionProps) => {
 
   return (
     <div className="space-y-6">
+      {selectedNote && (
+        <div ref={viewerRef} className="scroll-mt-24">
+          <NotesPanel note={selectedNote} onClose={() => onNoteSelect(null)} />
+        </div>
+      )}
+
       {/* Search Bar */}
       <div className="flex items-center gap-4">
         <div className="relative flex-1">
@@ -149,7 +129,7 @@ const NotesSection = ({ searchTerm, onSearchChange }: NotesSectionProps) => {
           <Input
             placeholder="Search notes..."
             value={searchTerm}
-            onChange={(e) => onSearchChange(e.target.value)}
+            onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
           />
         </div>
@@ -158,6 +138,10 @@ const NotesSection = ({ searchTerm, onSearchChange }: NotesSectionProps) => {
         </Badge>
       </div>
 
+      {isError && notes.length === 0 && (
+        <CatalogError what="notes" error={error} retrying={isFetching} onRetry={() => refetch()} />
+      )}
+
       {/* No Results */}
       {filteredNotes.length === 0 && searchTerm && (
         <Card className="shadow-soft">
@@ -172,22 +156,25 @@ const NotesSection = ({ searchTerm, onSearchChange }: NotesSectionProps) => {
       )}
 
       {/* Grouped Notes */}
-      {Object.entries(groupedNotes).map(([category, categoryNotes]) => (
+      {groupedNotes.map(([category, categoryNotes]) => (
         <div key={category} className="space-y-4">
           <div className="flex items-center gap-2">
+            <CategoryIcon category={category} className="h-5 w-5 text-primary" />
             <h2 className="text-xl font-semibold">{category}</h2>
             <Badge variant="outline">{categoryNotes.length}</Badge>
           </div>
 
           <div className="grid gap-4">
-            {categoryNotes.map((note, index) => (
-              <Card key={index} className="shadow-soft hover:shadow-elegant transition-all duration-300">
+            {categoryNotes.map((note) => (
+              <Card key={getNoteId(note)} className="shadow-soft hover:shadow-elegant transition-all duration-300">
                 <CardContent className="p-6">
                   <div className="flex items-start justify-between gap-4">
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-2">
                         <FileText className="h-5 w-5 text-primary" />
-                        <h3 className="font-semibold text-foreground">{note.title}</h3>
+                        <h3 className="font-semibold text-foreground">
+                          <HighlightedText text={note.title} ranges={matches.get(note)?.highlights.title} />
+                        </h3>
                       </div>
                       
                       <div className="flex items-center gap-2 mb-4">
@@ -204,7 +191,7 @@ const NotesSection = ({ searchTerm, onSearchChange }: NotesSectionProps) => {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleView(note.link)}
+                        onClick={() => onNoteSelect(note)}
                         className="flex items-center gap-2"
                       >
                         <ExternalLink className="h-4 w-4" />
@@ -233,7 +220,7 @@ const NotesSection = ({ searchTerm, onSearchChange }: NotesSectionProps) => {
       <Card className="shadow-soft bg-card-gradient">
         <CardContent className="p-4">
           <div className="flex items-center justify-between text-sm text-muted-foreground">
-            <span>Total categories: {Object.keys(groupedNotes).length}</span>
+            <span>Total categories: {groupedNotes.length}</span>
             <span>Total notes: {notes.length}</span>
           </div>
         </CardContent>
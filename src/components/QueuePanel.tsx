@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ArrowDown, ArrowUp, ChevronDown, ListVideo, Play, Save, Trash2, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useWatchQueue } from '@/hooks/use-watch-queue';
+import { Lecture, getLectureId } from '@/lib/lectures';
+
+interface QueuePanelProps {
+  // Full catalog, used to resolve queued lecture IDs
+  lectures: Lecture[];
+  currentLectureId: string;
+  onPlayLecture: (lecture: Lecture) => void;
+}
+
+// Collapsible watch queue and saved playlists, shown under the player
+const QueuePanel = ({ lectures, currentLectureId, onPlayLecture }: QueuePanelProps) => {
+  const {
+    queue,
+    playlists,
+    removeFromQueue,
+    moveInQueue,
+    clearQueue,
+    savePlaylist,
+    loadPlaylist,
+    deletePlaylist,
+  } = useWatchQueue();
+  const [isOpen, setIsOpen] = useState(queue.length > 0);
+  const [playlistName, setPlaylistName] = useState('');
+
+  const lecturesById = new Map(lectures.map(lecture => [getLectureId(lecture), lecture]));
+  // Lectures removed from the catalog are skipped rather than shown broken
+  const queuedLectures = queue
+    .map((id, index) => ({ lecture: lecturesById.get(id), index }))
+    .filter((item): item is { lecture: Lecture; index: number } => !!item.lecture);
+
+  const handleSavePlaylist = () => {
+    if (!playlistName.trim()) return;
+    savePlaylist(playlistName);
+    toast({
+      title: 'Playlist Saved',
+      description: `Saved ${queue.length} lectures as "${playlistName.trim()}"`,
+    });
+    setPlaylistName('');
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-lg border border-border">
+      <CollapsibleTrigger asChild>
+        <button className="w-full flex items-center gap-2 px-4 py-3 text-left">
+          <ListVideo className="h-4 w-4 text-primary" />
+          <h4 className="text-sm font-semibold flex-1">Watch Queue</h4>
+          <Badge variant="outline">{queuedLectures.length}</Badge>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="border-t border-border">
+        {queuedLectures.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">
+            Your queue is empty. Add lectures from the Lectures tab.
+          </p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto p-1">
+            {queuedLectures.map(({ lecture, index }) => {
+              const lectureId = getLectureId(lecture);
+              const isCurrent = lectureId === currentLectureId;
+
+              return (
+                <div
+                  key={lectureId}
+                  className={`flex items-center gap-1 rounded px-2 py-1.5 text-sm ${isCurrent ? 'bg-accent' : ''}`}
+                >
+                  <button
+                    onClick={() => onPlayLecture(lecture)}
+                    className="flex flex-1 items-center gap-2 text-left min-w-0"
+                  >
+                    <span className="w-5 text-xs text-muted-foreground">{index + 1}</span>
+                    {isCurrent && <Play className="h-3 w-3 text-primary flex-shrink-0" />}
+                    <span className={`line-clamp-1 ${isCurrent ? 'font-medium' : ''}`}>{lecture.title}</span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => moveInQueue(index, index - 1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => moveInQueue(index, index + 1)}
+                    disabled={index === queue.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => removeFromQueue(lectureId)}
+                    aria-label="Remove from queue"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t border-border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Playlist name"
+              value={playlistName}
+              onChange={(e) => setPlaylistName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePlaylist()}
+              className="h-8"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSavePlaylist}
+              disabled={!playlistName.trim() || queue.length === 0}
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+            <Button variant="ghost" size="sm" onClick={clearQueue} disabled={queue.length === 0}>
+              Clear
+            </Button>
+          </div>
+
+          {playlists.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">Saved playlists</div>
+              {playlists.map((playlist) => (
+                <div key={playlist.id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 line-clamp-1">{playlist.name}</span>
+                  <Badge variant="outline" className="text-xs">{playlist.lectureIds.length}</Badge>
+                  <Button variant="ghost" size="sm" className="h-7" onClick={() => loadPlaylist(playlist.id)}>
+                    Load
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => deletePlaylist(playlist.id)}
+                    aria-label="Delete playlist"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default QueuePanel;
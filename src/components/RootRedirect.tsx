@@ -0,0 +1,16 @@
+import { Navigate, useSearchParams } from 'react-router-dom';
+
+// "/" opens the lectures tab. Links in the ?tab=notes&q=vachya form are sent
+// to that tab's route with the rest of their parameters.
+const RootRedirect = () => {
+  const [searchParams] = useSearchParams();
+  const tab = searchParams.get('tab') === 'notes' ? 'notes' : 'lectures';
+
+  const params = new URLSearchParams(searchParams);
+  params.delete('tab');
+  const search = params.toString();
+
+  return <Navigate to={`/${tab}${search ? `?${search}` : ''}`} replace />;
+};
+
+export default RootRedirect;
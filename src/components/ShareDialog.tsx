@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Copy, Share2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { formatTime } from '@/lib/time';
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  // App path of the lecture, e.g. /lectures/vachya-lec-01
+  path: string;
+  // Playback position when the dialog was opened
+  currentTime: number;
+}
+
+// Link, native share sheet and a QR code (for projecting in class) for a lecture
+const ShareDialog = ({ open, onOpenChange, title, path, currentTime }: ShareDialogProps) => {
+  const startTime = Math.floor(currentTime);
+  const [includeTime, setIncludeTime] = useState(startTime > 0);
+
+  // Default to the current position each time the dialog opens
+  useEffect(() => {
+    if (open) setIncludeTime(startTime > 0);
+  }, [open, startTime]);
+
+  const shareUrl = new URL(path, window.location.origin);
+  if (includeTime && startTime > 0) shareUrl.searchParams.set('t', startTime.toString());
+  const link = shareUrl.toString();
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: 'Link Copied',
+        description: includeTime ? `Starts at ${formatTime(startTime)}` : title,
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to copy the link. Please copy it manually.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const shareLink = async () => {
+    try {
+      await navigator.share({ title, url: link });
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError, which isn't a failure
+      if ((error as DOMException).name !== 'AbortError') {
+        console.error('Error sharing link:', error);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share Lecture</DialogTitle>
+          <DialogDescription className="line-clamp-2">{title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Input value={link} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={copyLink}>
+              <Copy className="h-4 w-4 mr-1" />
+              Copy
+            </Button>
+          </div>
+
+          {startTime > 0 && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="share-include-time"
+                checked={includeTime}
+                onCheckedChange={(checked) => setIncludeTime(checked === true)}
+              />
+              <Label htmlFor="share-include-time">Start at {formatTime(startTime)}</Label>
+            </div>
+          )}
+
+          <div className="flex justify-center rounded-lg bg-white p-4">
+            <QRCodeSVG value={link} size={224} />
+          </div>
+
+          {'share' in navigator && (
+            <Button onClick={shareLink} className="w-full">
+              <Share2 className="h-4 w-4 mr-2" />
+              Share...
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Play, X } from 'lucide-react';
+import { Lecture, getLectureCategory } from '@/lib/lectures';
+
+interface UpNextCardProps {
+  lecture: Lecture;
+  // Seconds before the lecture starts on its own; null when autoplay is off
+  countdown: number | null;
+  onPlay: () => void;
+  onCancel: () => void;
+}
+
+// Shown over the player when a lecture ends
+const UpNextCard = ({ lecture, countdown, onPlay, onCancel }: UpNextCardProps) => {
+  const [secondsLeft, setSecondsLeft] = useState(countdown);
+  // Fire the latest onPlay exactly once when the countdown runs out
+  const onPlayRef = useRef(onPlay);
+  onPlayRef.current = onPlay;
+
+  useEffect(() => {
+    if (secondsLeft === null) return;
+    if (secondsLeft <= 0) {
+      onPlayRef.current();
+      return;
+    }
+
+    const timeout = window.setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+    return () => window.clearTimeout(timeout);
+  }, [secondsLeft]);
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/80 text-white p-4">
+      <div className="w-full max-w-sm space-y-4 text-center">
+        <p className="text-sm text-white/70">
+          {secondsLeft !== null ? `Up next in ${secondsLeft}s` : 'Up next'}
+        </p>
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold leading-tight line-clamp-2">{lecture.title}</h3>
+          <Badge variant="secondary" className="text-xs">
+            {getLectureCategory(lecture)}
+          </Badge>
+        </div>
+
+        {secondsLeft !== null && countdown !== null && (
+          <div className="h-1 w-full rounded-full bg-white/20 overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-1000 ease-linear"
+              style={{ width: `${((countdown - secondsLeft) / countdown) * 100}%` }}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-center gap-2">
+          <Button onClick={onCancel} variant="outline" size="sm" className="text-foreground">
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+          <Button onClick={onPlay} variant="hero" size="sm">
+            <Play className="h-4 w-4 mr-2" />
+            Play now
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UpNextCard;
@@ -1,19 +1,139 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Play, Pause, Volume2, VolumeX, Maximize, RotateCcw, Settings } from 'lucide-react';
+import {
+  Play,
+  Pause,
+  Volume2,
+  VolumeX,
+  FileText,
+  Maximize,
+  Maximize2,
+  Minimize2,
+  PictureInPicture2,
+  RotateCcw,
+  Settings,
+  Keyboard,
+  SkipBack,
+  Share2,
+  SkipForward,
+  X,
+} from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 import Hls from 'hls.js';
+import { Lecture, getLecturePath } from '@/lib/lectures';
+import { storage } from '@/lib/storage';
+import { KeyboardShortcut, useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { useThumbnailTrack } from '@/hooks/use-thumbnail-track';
+import { useWatchTracker } from '@/hooks/use-watch-tracker';
+import { useMediaSession } from '@/hooks/use-media-session';
+import { useLectureNotes } from '@/hooks/use-lecture-notes';
+import { useIsMobile } from '@/hooks/use-mobile';
+import {
+  CaptionBackground,
+  CaptionOption,
+  CaptionSettings,
+  CaptionSize,
+  SubtitleTrack,
+  loadCaptionSettings,
+  saveCaptionSettings,
+} from '@/lib/captions';
+import { Chapter, getChapterIndexAt, getChapterSegments, sortChapters } from '@/lib/chapters';
+import { TimeRange, formatTime, getBufferedRanges } from '@/lib/time';
+import { findThumbnail } from '@/lib/thumbnails';
+import {
+  clearSavedPosition,
+  completionThresholds,
+  getCompletionThreshold,
+  getCoverage,
+  getSavedPosition,
+  isFinishedPosition,
+  setCompletionThreshold,
+} from '@/lib/watch-history';
+import { PlaybackErrorKind, attachErrorRecovery, getMediaErrorKind, playbackErrorMessages } from '@/lib/hls-recovery';
+import KeyboardShortcutsHelp from './KeyboardShortcutsHelp';
+import CaptionsOverlay from './CaptionsOverlay';
+import ChapterList from './ChapterList';
+import VideoScrubber from './VideoScrubber';
+import UpNextCard from './UpNextCard';
+import QueuePanel from './QueuePanel';
+import NotesPanel from './NotesPanel';
+import ShareDialog from './ShareDialog';
+import courseArtwork from '@/assets/hero-education.jpg';
 
 interface VideoPlayerProps {
+  lectureId: string;
   title: string;
+  category: string;
   url: string;
+  subtitles?: SubtitleTrack[];
+  chapters?: Chapter[];
+  thumbnails?: string;
+  notesId?: string;
+  // Start playing as soon as the stream is ready, e.g. after autoplay advanced here
+  autoPlay?: boolean;
+  // Position from a ?t= link; read on mount and takes the place of the resume banner
+  startTime?: number | null;
+  nextLecture?: Lecture | null;
+  previousLecture?: Lecture | null;
+  // Full catalog, for the watch queue panel
+  lectures?: Lecture[];
+  onPlayLecture?: (lecture: Lecture) => void;
+  // Docked in a corner while the user browses; the same <video> and Hls instance keep playing
+  minimized?: boolean;
+  onMinimize?: () => void;
+  onExpand?: () => void;
   onBack: () => void;
 }
 
-const VideoPlayer = ({ title, url, onBack }: VideoPlayerProps) => {
+// Seconds the "Up next" card counts down before autoplaying
+const AUTOPLAY_COUNTDOWN = 10;
+
+// Times a dead Hls instance is replaced before giving up
+const MAX_HLS_REBUILDS = 2;
+
+// Seconds into a lecture after which "previous track" restarts it instead
+const RESTART_THRESHOLD = 3;
+
+// Player / notes panel sizes in percent until the user drags the divider
+const DEFAULT_SPLIT_LAYOUT = [60, 40];
+
+// Enable one caption track (hidden mode, CaptionsOverlay draws it) and disable the rest
+const applyCaptionTrack = (video: HTMLVideoElement | null, hls: Hls | null, option: CaptionOption | null) => {
+  if (!video) return;
+
+  if (hls) {
+    hls.subtitleTrack = option?.source === 'hls' ? option.index : -1;
+  }
+  video.querySelectorAll('track').forEach((trackElement, index) => {
+    trackElement.track.mode = option?.source === 'sidecar' && option.index === index ? 'hidden' : 'disabled';
+  });
+};
+
+const VideoPlayer = ({
+  lectureId,
+  title,
+  category,
+  url,
+  subtitles,
+  chapters,
+  thumbnails,
+  notesId,
+  autoPlay = false,
+  startTime = null,
+  nextLecture,
+  previousLecture,
+  lectures,
+  onPlayLecture,
+  minimized = false,
+  onMinimize,
+  onExpand,
+  onBack,
+}: VideoPlayerProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const hlsRef = useRef<Hls | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -21,81 +141,240 @@ const VideoPlayer = ({ title, url, onBack }: VideoPlayerProps) => {
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<PlaybackErrorKind | null>(null);
+  const [recoveryMessage, setRecoveryMessage] = useState<string | null>(null);
+  const restartPlaybackRef = useRef<() => void>();
   const [qualityLevels, setQualityLevels] = useState<Array<{ height: number; bitrate: number; index: number }>>([]);
   const [currentQuality, setCurrentQuality] = useState<number>(-1);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [showSettings, setShowSettings] = useState(false);
+  const [volume, setVolume] = useState(1);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [osdMessage, setOsdMessage] = useState<string | null>(null);
+  const osdTimeoutRef = useRef<number>();
+  const [hlsSubtitleTracks, setHlsSubtitleTracks] = useState<Array<{ name: string; lang: string }>>([]);
+  const [activeCaptionId, setActiveCaptionId] = useState<string | null>(null);
+  const [captionSettings, setCaptionSettings] = useState<CaptionSettings>(loadCaptionSettings);
+  const [bufferedRanges, setBufferedRanges] = useState<TimeRange[]>([]);
+  const thumbnailCues = useThumbnailTrack(thumbnails);
+  const [autoplayNext, setAutoplayNext] = useState(() => storage.get('autoplay_next') ?? true);
+  const [showUpNext, setShowUpNext] = useState(false);
+  // Saved position offered in the resume banner until the user picks an option
+  const [resumePosition, setResumePosition] = useState<number | null>(null);
+  // Playing while the banner is up mustn't overwrite the position it offers
+  const watchRecord = useWatchTracker(videoRef, lectureId, resumePosition === null);
+  const [completionThreshold, setCompletionThresholdState] = useState(getCompletionThreshold);
+  const watchedCoverage = getCoverage(watchRecord);
+  const [isPictureInPicture, setIsPictureInPicture] = useState(false);
+  // Position captured when the share dialog opened, or null while it's closed
+  const [shareTime, setShareTime] = useState<number | null>(null);
+  const startTimeRef = useRef(startTime);
+  const notes = useLectureNotes(title, notesId);
+  const [showNotes, setShowNotes] = useState(() => storage.get('split_view_open') ?? true);
+  const isMobile = useIsMobile();
+  const isSplit = !!notes && showNotes && !minimized && !isMobile;
+  const splitLayout = storage.get('split_view_layout') ?? DEFAULT_SPLIT_LAYOUT;
 
-  // Generate a unique video ID for storing progress
-  const videoId = btoa(url).substring(0, 20);
+  // Subtitle tracks from the HLS manifest, then sidecar files from the catalog
+  const captionOptions = useMemo<CaptionOption[]>(() => [
+    ...hlsSubtitleTracks.map((track, index) => ({
+      id: `hls-${index}`,
+      label: track.name || track.lang || `Track ${index + 1}`,
+      lang: track.lang,
+      source: 'hls' as const,
+      index,
+    })),
+    ...(subtitles || []).map((track, index) => ({
+      id: `sidecar-${index}`,
+      label: track.label,
+      lang: track.lang,
+      source: 'sidecar' as const,
+      index,
+    })),
+  ], [hlsSubtitleTracks, subtitles]);
+
+  const sortedChapters = useMemo(() => sortChapters(chapters), [chapters]);
+  const currentChapterIndex = getChapterIndexAt(sortedChapters, currentTime);
+  const chapterSegments = getChapterSegments(sortedChapters, duration);
 
   useEffect(() => {
     const video = videoRef.current;
     if (!video) return;
 
-    // Try to load saved progress for this video
-    const savedProgress = localStorage.getItem(`video_progress_${videoId}`);
-    if (savedProgress) {
-      video.currentTime = parseFloat(savedProgress);
-    }
+    // Offered once the source is ready rather than applied before hls.js attaches
+    const offerResume = () => setResumePosition(getSavedPosition(lectureId));
+    const linkedPosition = startTimeRef.current;
+
+    setResumePosition(null);
+    setHlsSubtitleTracks([]);
+    setActiveCaptionId(null);
+    setBufferedRanges([]);
+    setRecoveryMessage(null);
 
     // Check if browser supports HLS
     if (Hls.isSupported()) {
-      const hls = new Hls({
-        enableWorker: false,
-      });
-      hlsRef.current = hls;
+      let detachRecovery = () => {};
+      let rebuilds = 0;
+      let resumeOffered = false;
 
-      hls.loadSource(url);
-      hls.attachMedia(video);
+      const createHls = (startPosition: number, startMessage?: string) => {
+        const hls = new Hls({
+          enableWorker: false,
+          startPosition,
+        });
+        hlsRef.current = hls;
+        // Cues are drawn by CaptionsOverlay rather than the browser
+        hls.subtitleDisplay = false;
 
-      hls.on(Hls.Events.MANIFEST_PARSED, () => {
-        setIsLoading(false);
-        setError(null);
-        
-        // Extract available quality levels
-        const levels = hls.levels
-          .map((level, index) => ({
-            height: level.height,
-            bitrate: level.bitrate,
-            index: index,
-          }))
-          .sort((a, b) => b.height - a.height); // Sort highest to lowest
-        
-        setQualityLevels(levels);
-        setCurrentQuality(-1); // Auto quality
-      });
+        hls.loadSource(url);
+        hls.attachMedia(video);
 
-      hls.on(Hls.Events.ERROR, (event, data) => {
-        if (data.fatal) {
-          setError('Failed to load video. Please try again.');
+        hls.on(Hls.Events.MANIFEST_PARSED, () => {
           setIsLoading(false);
-        }
-      });
+          setError(null);
+          // A ?t= link already started at its position via startPosition
+          if (!resumeOffered && linkedPosition === null) {
+            resumeOffered = true;
+            offerResume();
+          }
+          
+          // Extract available quality levels
+          const levels = hls.levels
+            .map((level, index) => ({
+              height: level.height,
+              bitrate: level.bitrate,
+              index: index,
+            }))
+            .sort((a, b) => b.height - a.height); // Sort highest to lowest
+          
+          setQualityLevels(levels);
+          setCurrentQuality(-1); // Auto quality
+        });
+
+        hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, (event, data) => {
+          setHlsSubtitleTracks(data.subtitleTracks.map(track => ({ name: track.name, lang: track.lang || '' })));
+        });
+
+        detachRecovery = attachErrorRecovery(hls, {
+          onRecovering: setRecoveryMessage,
+          onGiveUp: (kind) => {
+            // Last resort: a fresh Hls instance at the same position
+            if (rebuilds < MAX_HLS_REBUILDS) {
+              rebuilds++;
+              rebuildHls();
+              return;
+            }
+            setRecoveryMessage(null);
+            setError(kind);
+            setIsLoading(false);
+          },
+        }, startMessage);
+      };
+
+      const rebuildHls = () => {
+        const position = video.currentTime;
+        detachRecovery();
+        hlsRef.current?.destroy();
+        createHls(position > 0 ? position : -1, 'Reloading video...');
+      };
+
+      restartPlaybackRef.current = () => {
+        rebuilds = 0;
+        rebuildHls();
+      };
+
+      createHls(linkedPosition ?? -1);
+
+      // Cleanup function
+      return () => {
+        detachRecovery();
+        hlsRef.current?.destroy();
+        hlsRef.current = null;
+      };
     } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
       // For Safari - it has native HLS support
-      video.src = url;
-      video.addEventListener('loadeddata', () => {
+      const handleLoadedData = () => {
         setIsLoading(false);
         setError(null);
-      });
-      video.addEventListener('error', () => {
-        setError('Failed to load video. Please try again.');
+      };
+      const handleLoadedMetadata = () => {
+        video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+        if (linkedPosition !== null) {
+          video.currentTime = linkedPosition;
+        } else {
+          offerResume();
+        }
+      };
+      const handleError = () => {
+        setError(getMediaErrorKind(video.error));
         setIsLoading(false);
-      });
+      };
+
+      video.src = url;
+      video.addEventListener('loadeddata', handleLoadedData);
+      video.addEventListener('loadedmetadata', handleLoadedMetadata);
+      video.addEventListener('error', handleError);
+
+      restartPlaybackRef.current = () => {
+        const position = video.currentTime;
+        video.load();
+        video.currentTime = position;
+      };
+
+      return () => {
+        video.removeEventListener('loadeddata', handleLoadedData);
+        video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+        video.removeEventListener('error', handleError);
+      };
     } else {
-      setError('HLS is not supported in this browser.');
+      setError('unsupported');
       setIsLoading(false);
     }
+  }, [url, lectureId]);
+
+  useEffect(() => {
+    return () => window.clearTimeout(osdTimeoutRef.current);
+  }, []);
 
-    // Cleanup function
+  // React has no props for the picture-in-picture events
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleEnter = () => setIsPictureInPicture(true);
+    const handleLeave = () => setIsPictureInPicture(false);
+    video.addEventListener('enterpictureinpicture', handleEnter);
+    video.addEventListener('leavepictureinpicture', handleLeave);
     return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-      }
+      video.removeEventListener('enterpictureinpicture', handleEnter);
+      video.removeEventListener('leavepictureinpicture', handleLeave);
     };
-  }, [url, videoId]);
+  }, []);
+
+  // Turn on the remembered caption language once a matching track shows up
+  useEffect(() => {
+    if (activeCaptionId || !captionSettings.language) return;
+
+    const preferred = captionOptions.find(option => option.lang === captionSettings.language);
+    if (!preferred) return;
+
+    applyCaptionTrack(videoRef.current, hlsRef.current, preferred);
+    setActiveCaptionId(preferred.id);
+  }, [captionOptions, activeCaptionId, captionSettings.language]);
+
+  // Briefly show feedback for keyboard actions over the video
+  const showOsd = (message: string) => {
+    setOsdMessage(message);
+    window.clearTimeout(osdTimeoutRef.current);
+    osdTimeoutRef.current = window.setTimeout(() => setOsdMessage(null), 800);
+  };
+
+  // Retry after a failure without reloading the page (and re-running AccessControl)
+  const retryPlayback = () => {
+    setError(null);
+    setIsLoading(true);
+    restartPlaybackRef.current?.();
+  };
 
   const togglePlayPause = () => {
     const video = videoRef.current;
@@ -123,6 +402,18 @@ const VideoPlayer = ({ title, url, onBack }: VideoPlayerProps) => {
     setIsMuted(video.muted);
   };
 
+  const changeVolume = (delta: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const newVolume = Math.min(1, Math.max(0, Math.round((video.volume + delta) * 100) / 100));
+    video.volume = newVolume;
+    video.muted = newVolume === 0;
+    setVolume(newVolume);
+    setIsMuted(video.muted);
+    showOsd(`Volume ${Math.round(newVolume * 100)}%`);
+  };
+
   const toggleFullscreen = () => {
     const video = videoRef.current;
     if (!video) return;
@@ -136,16 +427,77 @@ const VideoPlayer = ({ title, url, onBack }: VideoPlayerProps) => {
     }
   };
 
+  // Native picture-in-picture, falling back to the in-page mini-player
+  const togglePictureInPicture = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (!document.pictureInPictureEnabled || video.disablePictureInPicture) {
+      if (onMinimize && !minimized) {
+        onMinimize();
+      } else {
+        toast({
+          title: 'Picture-in-picture unavailable',
+          description: 'Your browser does not support picture-in-picture.',
+        });
+      }
+      return;
+    }
+
+    try {
+      if (document.pictureInPictureElement === video) {
+        await document.exitPictureInPicture();
+      } else {
+        await video.requestPictureInPicture();
+      }
+    } catch (error) {
+      console.error('Error toggling picture-in-picture:', error);
+    }
+  };
+
   const handleTimeUpdate = () => {
     const video = videoRef.current;
     if (!video) return;
 
     setCurrentTime(video.currentTime);
-    
-    // Auto-save progress every 5 seconds to avoid too many writes
-    if (Math.floor(video.currentTime) % 5 === 0) {
-      localStorage.setItem(`video_progress_${videoId}`, video.currentTime.toString());
+  };
+
+  const handleEnded = () => {
+    if (nextLecture && onPlayLecture) setShowUpNext(true);
+  };
+
+  const playNextLecture = () => {
+    setShowUpNext(false);
+    if (nextLecture && onPlayLecture) onPlayLecture(nextLecture);
+  };
+
+  // Like most players, "previous" restarts the lecture unless it has only just begun
+  const playPreviousLecture = () => {
+    const video = videoRef.current;
+    if (video && (video.currentTime > RESTART_THRESHOLD || !previousLecture)) {
+      video.currentTime = 0;
+      return;
     }
+    if (previousLecture && onPlayLecture) onPlayLecture(previousLecture);
+  };
+
+  useMediaSession(videoRef, {
+    title,
+    artist: category,
+    album: 'Master Shahab Academy',
+    artwork: courseArtwork,
+    onPreviousTrack: onPlayLecture ? playPreviousLecture : undefined,
+    onNextTrack: nextLecture && onPlayLecture ? playNextLecture : undefined,
+  });
+
+  const changeCompletionThreshold = (threshold: number) => {
+    setCompletionThresholdState(threshold);
+    setCompletionThreshold(threshold);
+  };
+
+  const toggleAutoplayNext = (enabled: boolean) => {
+    setAutoplayNext(enabled);
+    storage.set('autoplay_next', enabled);
   };
 
   const handleLoadedMetadata = () => {
@@ -154,24 +506,60 @@ const VideoPlayer = ({ title, url, onBack }: VideoPlayerProps) => {
     setDuration(video.duration);
   };
 
-  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+  // A saved position this close to the end means the lecture was finished
+  useEffect(() => {
+    if (resumePosition !== null && isFinishedPosition(resumePosition, duration)) {
+      clearSavedPosition(lectureId);
+      setResumePosition(null);
+    }
+  }, [resumePosition, duration, lectureId]);
+
+  const resumePlayback = () => {
+    const video = videoRef.current;
+    if (video && resumePosition !== null) {
+      video.currentTime = resumePosition;
+      setCurrentTime(resumePosition);
+    }
+    setResumePosition(null);
+  };
+
+  // Also used when playback starts with the banner still up: ignoring it
+  // counts as starting over, so the new position gets saved
+  const dismissResume = () => {
+    clearSavedPosition(lectureId);
+    setResumePosition(null);
+  };
+
+  const startOver = () => {
+    const video = videoRef.current;
+    if (video) {
+      video.currentTime = 0;
+      setCurrentTime(0);
+    }
+    dismissResume();
+  };
+
+  const handleProgress = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setBufferedRanges(getBufferedRanges(video));
+  };
+
+  const seekTo = (time: number) => {
     const video = videoRef.current;
     if (!video || duration === 0) return;
 
-    const rect = e.currentTarget.getBoundingClientRect();
-    const clickPos = e.clientX - rect.left;
-    const barWidth = rect.width;
-    const seekTime = (clickPos / barWidth) * duration;
-    
+    const seekTime = Math.min(duration, Math.max(0, time));
     video.currentTime = seekTime;
     setCurrentTime(seekTime);
   };
 
-  // Format time to MM:SS
-  const formatTime = (time: number) => {
-    const mins = Math.floor(time / 60);
-    const secs = Math.floor(time % 60);
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const seekBy = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    seekTo(video.currentTime + seconds);
+    showOsd(`${seconds > 0 ? '+' : '−'}${Math.abs(seconds)}s`);
   };
 
   // Change video quality
@@ -192,13 +580,18 @@ const VideoPlayer = ({ title, url, onBack }: VideoPlayerProps) => {
     }
   };
 
-  // Change playback speed
-  const changePlaybackRate = (rate: number) => {
+  const applyPlaybackRate = (rate: number) => {
     const video = videoRef.current;
-    if (!video) return;
-    
+    if (!video) return false;
+
     video.playbackRate = rate;
     setPlaybackRate(rate);
+    return true;
+  };
+
+  // Change playback speed
+  const changePlaybackRate = (rate: number) => {
+    if (!applyPlaybackRate(rate)) return;
     setShowSettings(false);
     
     toast({
@@ -207,218 +600,638 @@ const VideoPlayer = ({ title, url, onBack }: VideoPlayerProps) => {
     });
   };
 
+  const updateCaptionSettings = (changes: Partial<CaptionSettings>) => {
+    const updated = { ...captionSettings, ...changes };
+    setCaptionSettings(updated);
+    saveCaptionSettings(updated);
+  };
+
+  // Pick a caption track (or null for off) and remember its language
+  const changeCaption = (option: CaptionOption | null, notify = true) => {
+    applyCaptionTrack(videoRef.current, hlsRef.current, option);
+    setActiveCaptionId(option?.id ?? null);
+    updateCaptionSettings({ language: option?.lang ?? null });
+    setShowSettings(false);
+
+    if (notify) {
+      toast({
+        title: 'Subtitles Changed',
+        description: option ? `Subtitles: ${option.label}` : 'Subtitles turned off',
+      });
+    }
+  };
+
+  const toggleCaptions = () => {
+    if (activeCaptionId) {
+      changeCaption(null, false);
+      showOsd('Subtitles off');
+      return;
+    }
+
+    const option = captionOptions.find(o => o.lang === captionSettings.language) || captionOptions[0];
+    if (!option) {
+      showOsd('No subtitles available');
+      return;
+    }
+    changeCaption(option, false);
+    showOsd(`Subtitles: ${option.label}`);
+  };
+
+  // Jump to the next chapter, or back to the start of the current/previous one
+  const goToChapter = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video || sortedChapters.length === 0) return;
+
+    const index = getChapterIndexAt(sortedChapters, video.currentTime);
+    let target: Chapter | undefined;
+    if (direction === 1) {
+      target = sortedChapters[index + 1];
+    } else {
+      const current = sortedChapters[index];
+      // Like a music player: restart the chapter unless we're right at its start
+      target = current && video.currentTime - current.start > 3 ? current : sortedChapters[index - 1];
+    }
+    if (!target) return;
+
+    seekTo(target.start);
+    showOsd(target.title);
+  };
+
+  const captionSizes: CaptionSize[] = ['small', 'medium', 'large'];
+  const captionBackgrounds: CaptionBackground[] = ['none', 'translucent', 'solid'];
+
   // Available playback speeds
   const playbackRates = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
 
-  const progressPercent = duration > 0 ? (currentTime / duration) * 100 : 0;
+  // Step to the next slower/faster speed in playbackRates
+  const stepPlaybackRate = (direction: 1 | -1) => {
+    const index = playbackRates.indexOf(playbackRate);
+    const next = playbackRates[Math.min(playbackRates.length - 1, Math.max(0, index + direction))];
+    if (applyPlaybackRate(next)) showOsd(`${next}x`);
+  };
+
+  // YouTube-style bindings, listed in the "?" overlay
+  const shortcuts: KeyboardShortcut[] = [
+    { keys: [' ', 'k'], label: 'Space / K', description: 'Play / pause', action: togglePlayPause },
+    { keys: ['j'], label: 'J', description: 'Rewind 10 seconds', action: () => seekBy(-10) },
+    { keys: ['l'], label: 'L', description: 'Forward 10 seconds', action: () => seekBy(10) },
+    { keys: ['ArrowLeft'], label: '←', description: 'Rewind 5 seconds', action: () => seekBy(-5) },
+    { keys: ['ArrowRight'], label: '→', description: 'Forward 5 seconds', action: () => seekBy(5) },
+    { keys: ['ArrowUp'], label: '↑', description: 'Volume up', action: () => changeVolume(0.05) },
+    { keys: ['ArrowDown'], label: '↓', description: 'Volume down', action: () => changeVolume(-0.05) },
+    { keys: ['['], label: '[', description: 'Previous chapter', action: () => goToChapter(-1) },
+    { keys: [']'], label: ']', description: 'Next chapter', action: () => goToChapter(1) },
+    { keys: ['m'], label: 'M', description: 'Mute / unmute', action: toggleMute },
+    { keys: ['f'], label: 'F', description: 'Fullscreen', action: toggleFullscreen },
+    { keys: ['c'], label: 'C', description: 'Subtitles on / off', action: toggleCaptions },
+    { keys: ['p'], label: 'P', description: 'Picture-in-picture', action: togglePictureInPicture },
+    { keys: ['<'], label: '<', description: 'Slower playback', action: () => stepPlaybackRate(-1) },
+    { keys: ['>'], label: '>', description: 'Faster playback', action: () => stepPlaybackRate(1) },
+    {
+      keys: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+      label: '0–9',
+      description: 'Jump to 0%–90% of the video',
+      action: (event) => seekTo((parseInt(event.key) / 10) * duration),
+    },
+    { keys: ['?'], label: '?', description: 'Show keyboard shortcuts', action: () => setShowShortcuts(true) },
+  ];
+
+  const toggleNotes = (show: boolean) => {
+    setShowNotes(show);
+    storage.set('split_view_open', show);
+  };
+
+  const handleSplitLayout = (sizes: number[]) => {
+    // Only remember the ratio while both panels are showing
+    if (sizes.length === 2) storage.set('split_view_layout', sizes);
+  };
+
+  // The mini-player shares the page with the tabs, so keys go to the page
+  useKeyboardShortcuts(shortcuts, !showShortcuts && shareTime === null && !minimized);
 
+  // Only the wrappers change between the full and mini layouts, so React
+  // keeps the same <video> element (and the Hls instance attached to it)
   return (
-    <div className="min-h-screen bg-background p-4">
-      <div className="max-w-6xl mx-auto space-y-6">
-        <div className="flex items-center gap-4">
-          <Button onClick={onBack} variant="outline">
-            <RotateCcw className="h-4 w-4 mr-2" />
-            Back to Lectures
-          </Button>
-        </div>
-
-        <Card className="shadow-elegant">
-          <CardHeader>
-            <CardTitle className="text-xl font-semibold">{title}</CardTitle>
-            <Badge variant="secondary" className="w-fit">
-              HLS Stream
-            </Badge>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="relative bg-black rounded-lg overflow-hidden">
-              {isLoading && (
-                <div className="absolute inset-0 flex items-center justify-center bg-black text-white">
-                  <div className="text-center">
-                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-2"></div>
-                    <p>Loading video...</p>
-                  </div>
+    <div className={minimized ? 'fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)]' : 'min-h-screen bg-background p-4'}>
+      <div className={minimized ? '' : `${isSplit ? 'max-w-screen-2xl' : 'max-w-6xl'} mx-auto space-y-6`}>
+        {!minimized && (
+          <div className="flex items-center gap-4">
+            <Button onClick={onBack} variant="outline">
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Back to Lectures
+            </Button>
+            {onMinimize && (
+              <Button onClick={onMinimize} variant="ghost">
+                <Minimize2 className="h-4 w-4 mr-2" />
+                Keep watching while browsing
+              </Button>
+            )}
+            <Button onClick={() => setShareTime(currentTime)} variant="ghost" className="ml-auto">
+              <Share2 className="h-4 w-4 mr-2" />
+              Share
+            </Button>
+            {notes && (
+              <Button onClick={() => toggleNotes(!showNotes)} variant="ghost">
+                <FileText className="h-4 w-4 mr-2" />
+                {showNotes ? 'Hide notes' : 'Show notes'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Split view: the player panel is always rendered so the <video> never remounts */}
+        <ResizablePanelGroup direction="horizontal" onLayout={handleSplitLayout}>
+          <ResizablePanel id="player" order={1} defaultSize={isSplit ? splitLayout[0] : 100} minSize={35}>
+            <Card className={minimized ? 'shadow-elegant overflow-hidden' : 'shadow-elegant'}>
+              {minimized ? (
+                <div className="flex items-center gap-1 px-3 py-2">
+                  <p className="flex-1 text-sm font-medium line-clamp-1">{title}</p>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onExpand} aria-label="Expand player">
+                    <Maximize2 className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onBack} aria-label="Close player">
+                    <X className="h-4 w-4" />
+                  </Button>
                 </div>
+              ) : (
+                <CardHeader>
+                  <CardTitle className="text-xl font-semibold">{title}</CardTitle>
+                  <Badge variant="secondary" className="w-fit">
+                    HLS Stream
+                  </Badge>
+                </CardHeader>
               )}
+              <CardContent className={minimized ? 'p-0' : 'space-y-4'}>
+                <div className={`relative bg-black overflow-hidden ${minimized ? '' : 'rounded-lg'}`}>
+                  {isLoading && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-black text-white">
+                      <div className="text-center">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-2"></div>
+                        <p>Loading video...</p>
+                      </div>
+                    </div>
+                  )}
               
-              {error && (
-                <div className="absolute inset-0 flex items-center justify-center bg-black text-white">
-                  <div className="text-center">
-                    <p className="text-red-400 mb-2">{error}</p>
-                    <Button onClick={() => window.location.reload()} variant="outline" size="sm">
-                      Retry
-                    </Button>
-                  </div>
-                </div>
-              )}
+                  {recoveryMessage && !error && (
+                    <div className="absolute top-4 left-4 z-10 flex items-center gap-2 px-3 py-1.5 rounded-md bg-black/70 text-white text-sm pointer-events-none">
+                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>
+                      {recoveryMessage}
+                    </div>
+                  )}
+
+                  {error && (
+                    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black text-white">
+                      <div className="text-center max-w-sm px-4">
+                        <p className="text-red-400 font-medium mb-1">{playbackErrorMessages[error].title}</p>
+                        <p className="text-sm text-white/80 mb-3">{playbackErrorMessages[error].description}</p>
+                        {error !== 'unsupported' && (
+                          <Button onClick={retryPlayback} variant="outline" size="sm">
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {osdMessage && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 px-3 py-1.5 rounded-md bg-black/70 text-white text-sm pointer-events-none">
+                      {osdMessage}
+                    </div>
+                  )}
+
+                  <video
+                    ref={videoRef}
+                    className="w-full aspect-video"
+                    autoPlay={autoPlay}
+                    onPlay={() => {
+                      setIsPlaying(true);
+                      setShowUpNext(false);
+                      if (resumePosition !== null) dismissResume();
+                    }}
+                    onPause={() => setIsPlaying(false)}
+                    onTimeUpdate={handleTimeUpdate}
+                    onLoadedMetadata={handleLoadedMetadata}
+                    onProgress={handleProgress}
+                    onEnded={handleEnded}
+                    onVolumeChange={(e) => {
+                      setVolume(e.currentTarget.volume);
+                      setIsMuted(e.currentTarget.muted);
+                    }}
+                    controls={false}
+                  >
+                    {(subtitles || []).map((track) => (
+                      <track key={track.src} kind="subtitles" src={track.src} srcLang={track.lang} label={track.label} />
+                    ))}
+                  </video>
+
+                  {resumePosition !== null && !error && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 pl-3 pr-1 py-1 rounded-md bg-black/80 text-white text-sm">
+                      <span>Resume from {formatTime(resumePosition)}?</span>
+                      <Button size="sm" className="h-7" onClick={resumePlayback}>
+                        Resume
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 text-white hover:bg-white/20" onClick={startOver}>
+                        <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                        Start over
+                      </Button>
+                    </div>
+                  )}
+
+                  {showUpNext && nextLecture && (
+                    <UpNextCard
+                      lecture={nextLecture}
+                      countdown={autoplayNext ? AUTOPLAY_COUNTDOWN : null}
+                      onPlay={playNextLecture}
+                      onCancel={() => setShowUpNext(false)}
+                    />
+                  )}
 
-              <video
-                ref={videoRef}
-                className="w-full aspect-video"
-                onPlay={() => setIsPlaying(true)}
-                onPause={() => setIsPlaying(false)}
-                onTimeUpdate={handleTimeUpdate}
-                onLoadedMetadata={handleLoadedMetadata}
-                controls={false}
-              />
-
-              {/* Custom Controls */}
-              <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
-                {/* Progress Bar */}
-                <div 
-                  className="w-full h-2 bg-white/30 rounded-full cursor-pointer mb-4"
-                  onClick={handleSeek}
-                >
-                  <div 
-                    className="h-full bg-primary rounded-full transition-all"
-                    style={{ width: `${progressPercent}%` }}
+                  <CaptionsOverlay
+                    videoRef={videoRef}
+                    size={captionSettings.size}
+                    background={captionSettings.background}
                   />
-                </div>
 
-                {/* Control Buttons */}
-                <div className="flex items-center justify-between text-white">
-                  <div className="flex items-center gap-4">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={togglePlayPause}
-                      className="text-white hover:bg-white/20"
-                    >
-                      {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
-                    </Button>
-
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={toggleMute}
-                      className="text-white hover:bg-white/20"
-                    >
-                      {isMuted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
-                    </Button>
-
-                    <span className="text-sm">
-                      {formatTime(currentTime)} / {formatTime(duration)}
-                    </span>
-                  </div>
+                  {minimized && (
+                    <div className="absolute inset-0 flex items-center justify-center gap-2 bg-black/40 opacity-0 hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={togglePlayPause}
+                        className="text-white hover:bg-white/20"
+                        aria-label={isPlaying ? 'Pause' : 'Play'}
+                      >
+                        {isPlaying ? <Pause className="h-6 w-6" /> : <Play className="h-6 w-6" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={togglePictureInPicture}
+                        className="text-white hover:bg-white/20"
+                        aria-label="Picture-in-picture"
+                      >
+                        <PictureInPicture2 className="h-5 w-5" />
+                      </Button>
+                    </div>
+                  )}
 
-                  <div className="flex items-center gap-2">
-                    <Popover open={showSettings} onOpenChange={setShowSettings}>
-                      <PopoverTrigger asChild>
+                  {/* Custom Controls */}
+                  <div className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 ${minimized ? 'hidden' : ''}`}>
+                    {/* Progress Bar */}
+                    <div className="mb-2">
+                      <VideoScrubber
+                        currentTime={currentTime}
+                        duration={duration}
+                        buffered={bufferedRanges}
+                        chapters={chapterSegments}
+                        onSeek={seekTo}
+                        getThumbnail={thumbnailCues.length > 0 ? (time) => findThumbnail(thumbnailCues, time) : undefined}
+                      />
+                    </div>
+
+                    {/* Control Buttons */}
+                    <div className="flex items-center justify-between text-white">
+                      <div className="flex items-center gap-4">
                         <Button
                           variant="ghost"
                           size="sm"
+                          onClick={togglePlayPause}
                           className="text-white hover:bg-white/20"
                         >
-                          <Settings className="h-5 w-5" />
+                          {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
                         </Button>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-64 p-2" side="top" align="end">
-                        <div className="space-y-2">
-                          {/* Speed Control */}
-                          <div>
-                            <div className="text-sm font-medium mb-2 px-2">Playback Speed</div>
-                            <div className="space-y-1">
-                              {playbackRates.map((rate) => (
-                                <button
-                                  key={rate}
-                                  onClick={() => changePlaybackRate(rate)}
-                                  className={`w-full text-left px-2 py-1.5 text-sm rounded hover:bg-accent ${
-                                    playbackRate === rate ? 'bg-accent font-medium' : ''
-                                  }`}
-                                >
-                                  {rate === 1 ? 'Normal' : `${rate}x`}
-                                </button>
-                              ))}
-                            </div>
-                          </div>
-
-                           {/* Quality Control */}
-                          <div className="pt-2 border-t">
-                            <div className="text-sm font-medium mb-2 px-2">Quality</div>
-                            <div className="space-y-1">
-                              <button
-                                onClick={() => changeQuality(-1)}
-                                className={`w-full text-left px-2 py-1.5 text-sm rounded hover:bg-accent ${
-                                  currentQuality === -1 ? 'bg-accent font-medium' : ''
-                                }`}
-                              >
-                                Auto (Recommended)
-                              </button>
-                              
-                              {/* Standard Quality Options */}
-                              {[144, 240, 360, 480, 720, 1080].map((height) => {
-                                const matchingLevel = qualityLevels.find(level => level.height === height);
-                                const isAvailable = !!matchingLevel;
-                                const isSelected = matchingLevel && currentQuality === matchingLevel.index;
-                                
-                                const getQualityLabel = (h: number) => {
-                                  switch (h) {
-                                    case 144: return `${h}p – Very low quality`;
-                                    case 240: return `${h}p – Low quality`;
-                                    case 360: return `${h}p – Standard definition (SD)`;
-                                    case 480: return `${h}p – Enhanced SD / near DVD quality`;
-                                    case 720: return `${h}p (HD) – High definition`;
-                                    case 1080: return `${h}p (Full HD) – Full high definition`;
-                                    default: return `${h}p`;
-                                  }
-                                };
-                                
-                                return (
+
+                        {sortedChapters.length > 0 && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => goToChapter(-1)}
+                              className="text-white hover:bg-white/20"
+                              title="Previous chapter ([)"
+                            >
+                              <SkipBack className="h-5 w-5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => goToChapter(1)}
+                              className="text-white hover:bg-white/20"
+                              title="Next chapter (])"
+                            >
+                              <SkipForward className="h-5 w-5" />
+                            </Button>
+                          </>
+                        )}
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={toggleMute}
+                          className="text-white hover:bg-white/20"
+                        >
+                          {isMuted || volume === 0 ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+                        </Button>
+
+                        <span className="text-sm">
+                          {formatTime(currentTime)} / {formatTime(duration)}
+                        </span>
+
+                        {currentChapterIndex >= 0 && (
+                          <span className="hidden sm:inline text-sm text-white/80 line-clamp-1">
+                            {sortedChapters[currentChapterIndex].title}
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setShowShortcuts(true)}
+                          className="text-white hover:bg-white/20"
+                          title="Keyboard shortcuts (?)"
+                        >
+                          <Keyboard className="h-5 w-5" />
+                        </Button>
+
+                        <Popover open={showSettings} onOpenChange={setShowSettings}>
+                          <PopoverTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-white hover:bg-white/20"
+                            >
+                              <Settings className="h-5 w-5" />
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-64 p-2 max-h-[70vh] overflow-y-auto" side="top" align="end">
+                            <div className="space-y-2">
+                              {/* Speed Control */}
+                              <div>
+                                <div className="text-sm font-medium mb-2 px-2">Playback Speed</div>
+                                <div className="space-y-1">
+                                  {playbackRates.map((rate) => (
+                                    <button
+                                      key={rate}
+                                      onClick={() => changePlaybackRate(rate)}
+                                      className={`w-full text-left px-2 py-1.5 text-sm rounded hover:bg-accent ${
+                                        playbackRate === rate ? 'bg-accent font-medium' : ''
+                                      }`}
+                                    >
+                                      {rate === 1 ? 'Normal' : `${rate}x`}
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+
+                              {/* Autoplay */}
+                              {onPlayLecture && (
+                                <div className="pt-2 border-t">
+                                  <label className="flex items-center justify-between gap-2 px-2 py-1.5 text-sm cursor-pointer">
+                                    <span className="font-medium">Autoplay next lecture</span>
+                                    <Switch checked={autoplayNext} onCheckedChange={toggleAutoplayNext} />
+                                  </label>
+                                </div>
+                              )}
+
+                              {/* Completion */}
+                              <div className="pt-2 border-t">
+                                <div className="text-sm font-medium mb-2 px-2">Mark as completed at</div>
+                                <div className="flex gap-1 px-2">
+                                  {completionThresholds.map((threshold) => (
+                                    <button
+                                      key={threshold}
+                                      onClick={() => changeCompletionThreshold(threshold)}
+                                      className={`flex-1 px-2 py-1 text-xs rounded hover:bg-accent ${
+                                        completionThreshold === threshold ? 'bg-accent font-medium' : ''
+                                      }`}
+                                    >
+                                      {Math.round(threshold * 100)}%
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+
+                              {/* Subtitles */}
+                              <div className="pt-2 border-t">
+                                <div className="text-sm font-medium mb-2 px-2">Subtitles</div>
+                                <div className="space-y-1">
                                   <button
-                                    key={height}
-                                    onClick={() => isAvailable && matchingLevel && changeQuality(matchingLevel.index)}
-                                    disabled={!isAvailable}
-                                    className={`w-full text-left px-2 py-1.5 text-sm rounded transition-colors ${
-                                      isAvailable 
-                                        ? `hover:bg-accent cursor-pointer ${isSelected ? 'bg-accent font-medium' : ''}` 
-                                        : 'opacity-50 cursor-not-allowed text-muted-foreground'
+                                    onClick={() => changeCaption(null)}
+                                    className={`w-full text-left px-2 py-1.5 text-sm rounded hover:bg-accent ${
+                                      activeCaptionId === null ? 'bg-accent font-medium' : ''
                                     }`}
                                   >
-                                    <div className="flex justify-between items-center">
-                                      <span>{getQualityLabel(height)}</span>
-                                      {isAvailable && matchingLevel && (
-                                        <span className="text-xs text-muted-foreground">
-                                          {(matchingLevel.bitrate / 1000000).toFixed(1)} Mbps
-                                        </span>
-                                      )}
-                                      {!isAvailable && (
-                                        <span className="text-xs text-muted-foreground">
-                                          Not available
-                                        </span>
-                                      )}
+                                    Off
+                                  </button>
+                                  {captionOptions.map((option) => (
+                                    <button
+                                      key={option.id}
+                                      onClick={() => changeCaption(option)}
+                                      className={`w-full text-left px-2 py-1.5 text-sm rounded hover:bg-accent ${
+                                        activeCaptionId === option.id ? 'bg-accent font-medium' : ''
+                                      }`}
+                                    >
+                                      {option.label}
+                                    </button>
+                                  ))}
+                                  {captionOptions.length === 0 && (
+                                    <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                                      No subtitles for this lecture
                                     </div>
+                                  )}
+                                </div>
+
+                                {captionOptions.length > 0 && (
+                                  <div className="mt-2 space-y-2 px-2">
+                                    <div>
+                                      <div className="text-xs text-muted-foreground mb-1">Caption size</div>
+                                      <div className="flex gap-1">
+                                        {captionSizes.map((size) => (
+                                          <button
+                                            key={size}
+                                            onClick={() => updateCaptionSettings({ size })}
+                                            className={`flex-1 px-2 py-1 text-xs rounded capitalize hover:bg-accent ${
+                                              captionSettings.size === size ? 'bg-accent font-medium' : ''
+                                            }`}
+                                          >
+                                            {size}
+                                          </button>
+                                        ))}
+                                      </div>
+                                    </div>
+                                    <div>
+                                      <div className="text-xs text-muted-foreground mb-1">Caption background</div>
+                                      <div className="flex gap-1">
+                                        {captionBackgrounds.map((background) => (
+                                          <button
+                                            key={background}
+                                            onClick={() => updateCaptionSettings({ background })}
+                                            className={`flex-1 px-2 py-1 text-xs rounded capitalize hover:bg-accent ${
+                                              captionSettings.background === background ? 'bg-accent font-medium' : ''
+                                            }`}
+                                          >
+                                            {background}
+                                          </button>
+                                        ))}
+                                      </div>
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+
+                               {/* Quality Control */}
+                              <div className="pt-2 border-t">
+                                <div className="text-sm font-medium mb-2 px-2">Quality</div>
+                                <div className="space-y-1">
+                                  <button
+                                    onClick={() => changeQuality(-1)}
+                                    className={`w-full text-left px-2 py-1.5 text-sm rounded hover:bg-accent ${
+                                      currentQuality === -1 ? 'bg-accent font-medium' : ''
+                                    }`}
+                                  >
+                                    Auto (Recommended)
                                   </button>
-                                );
-                              })}
+                              
+                                  {/* Standard Quality Options */}
+                                  {[144, 240, 360, 480, 720, 1080].map((height) => {
+                                    const matchingLevel = qualityLevels.find(level => level.height === height);
+                                    const isAvailable = !!matchingLevel;
+                                    const isSelected = matchingLevel && currentQuality === matchingLevel.index;
+                                
+                                    const getQualityLabel = (h: number) => {
+                                      switch (h) {
+                                        case 144: return `${h}p – Very low quality`;
+                                        case 240: return `${h}p – Low quality`;
+                                        case 360: return `${h}p – Standard definition (SD)`;
+                                        case 480: return `${h}p – Enhanced SD / near DVD quality`;
+                                        case 720: return `${h}p (HD) – High definition`;
+                                        case 1080: return `${h}p (Full HD) – Full high definition`;
+                                        default: return `${h}p`;
+                                      }
+                                    };
+                                
+                                    return (
+                                      <button
+                                        key={height}
+                                        onClick={() => isAvailable && matchingLevel && changeQuality(matchingLevel.index)}
+                                        disabled={!isAvailable}
+                                        className={`w-full text-left px-2 py-1.5 text-sm rounded transition-colors ${
+                                          isAvailable 
+                                            ? `hover:bg-accent cursor-pointer ${isSelected ? 'bg-accent font-medium' : ''}` 
+                                            : 'opacity-50 cursor-not-allowed text-muted-foreground'
+                                        }`}
+                                      >
+                                        <div className="flex justify-between items-center">
+                                          <span>{getQualityLabel(height)}</span>
+                                          {isAvailable && matchingLevel && (
+                                            <span className="text-xs text-muted-foreground">
+                                              {(matchingLevel.bitrate / 1000000).toFixed(1)} Mbps
+                                            </span>
+                                          )}
+                                          {!isAvailable && (
+                                            <span className="text-xs text-muted-foreground">
+                                              Not available
+                                            </span>
+                                          )}
+                                        </div>
+                                      </button>
+                                    );
+                                  })}
+                                </div>
+                              </div>
                             </div>
-                          </div>
-                        </div>
-                      </PopoverContent>
-                    </Popover>
-
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={toggleFullscreen}
-                      className="text-white hover:bg-white/20"
-                    >
-                      <Maximize className="h-5 w-5" />
-                    </Button>
+                          </PopoverContent>
+                        </Popover>
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={togglePictureInPicture}
+                          className={`text-white hover:bg-white/20 ${isPictureInPicture ? 'bg-white/20' : ''}`}
+                          title="Picture-in-picture (P)"
+                        >
+                          <PictureInPicture2 className="h-5 w-5" />
+                        </Button>
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={toggleFullscreen}
+                          className="text-white hover:bg-white/20"
+                        >
+                          <Maximize className="h-5 w-5" />
+                        </Button>
+                      </div>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </div>
-
-            <div className="flex items-center justify-between text-sm text-muted-foreground">
-              <p>Progress is automatically saved as you watch</p>
-              {currentTime > 0 && (
-                <Badge variant="outline">
-                  Last watched: {formatTime(currentTime)}
-                </Badge>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+
+                {!minimized && sortedChapters.length > 0 && (
+                  <ChapterList
+                    chapters={sortedChapters}
+                    currentIndex={currentChapterIndex}
+                    onSelect={(chapter) => seekTo(chapter.start)}
+                  />
+                )}
+
+                {!minimized && lectures && onPlayLecture && (
+                  <QueuePanel
+                    lectures={lectures}
+                    currentLectureId={lectureId}
+                    onPlayLecture={onPlayLecture}
+                  />
+                )}
+
+                <div className={`flex items-center justify-between text-sm text-muted-foreground ${minimized ? 'hidden' : ''}`}>
+                  <p>Progress is automatically saved as you watch</p>
+                  <div className="flex items-center gap-2">
+                    {watchedCoverage > 0 && (
+                      <Badge variant={watchedCoverage >= completionThreshold ? 'default' : 'outline'}>
+                        {watchedCoverage >= completionThreshold ? 'Completed' : `${Math.round(watchedCoverage * 100)}% watched`}
+                      </Badge>
+                    )}
+                    {currentTime > 0 && (
+                      <Badge variant="outline">
+                        Last watched: {formatTime(currentTime)}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </ResizablePanel>
+
+          {isSplit && notes && (
+            <>
+              <ResizableHandle withHandle className="mx-3" />
+              <ResizablePanel id="notes" order={2} defaultSize={splitLayout[1]} minSize={20}>
+                <NotesPanel note={notes} onClose={() => toggleNotes(false)} />
+              </ResizablePanel>
+            </>
+          )}
+        </ResizablePanelGroup>
+
+        {/* Too narrow to split on phones, so the notes go under the player */}
+        {!minimized && isMobile && showNotes && notes && (
+          <NotesPanel note={notes} onClose={() => toggleNotes(false)} />
+        )}
       </div>
+
+      <KeyboardShortcutsHelp
+        open={showShortcuts}
+        onOpenChange={setShowShortcuts}
+        shortcuts={shortcuts}
+      />
+
+      <ShareDialog
+        open={shareTime !== null}
+        onOpenChange={(open) => !open && setShareTime(null)}
+        title={title}
+        path={getLecturePath(lectureId)}
+        currentTime={shareTime ?? 0}
+      />
     </div>
   );
 };
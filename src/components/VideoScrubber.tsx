@@ -0,0 +1,199 @@
+import { useRef, useState } from 'react';
+import type { ChapterSegment } from '@/lib/chapters';
+import type { ThumbnailCue } from '@/lib/thumbnails';
+import { TimeRange, formatTime } from '@/lib/time';
+
+interface VideoScrubberProps {
+  currentTime: number;
+  duration: number;
+  buffered: TimeRange[];
+  chapters: ChapterSegment[];
+  onSeek: (time: number) => void;
+  // Sprite frame to show above the preview time, if the lecture has thumbnails
+  getThumbnail?: (time: number) => ThumbnailCue | null;
+}
+
+// Seconds moved per arrow key, and per Page Up/Down as a share of the duration
+const KEY_STEP = 5;
+const PAGE_STEP_RATIO = 0.1;
+
+// Seek bar with pointer/touch dragging, keyboard stepping, a hover time
+// preview, buffered ranges and chapter gaps
+const VideoScrubber = ({
+  currentTime,
+  duration,
+  buffered,
+  chapters,
+  onSeek,
+  getThumbnail,
+}: VideoScrubberProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [previewTime, setPreviewTime] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const toPercent = (time: number) => (duration > 0 ? Math.min(100, Math.max(0, (time / duration) * 100)) : 0);
+
+  const timeFromClientX = (clientX: number) => {
+    const track = trackRef.current;
+    if (!track || duration === 0) return 0;
+
+    const rect = track.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (duration === 0 || e.button !== 0) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDragging(true);
+
+    const time = timeFromClientX(e.clientX);
+    setPreviewTime(time);
+    onSeek(time);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (duration === 0) return;
+
+    const time = timeFromClientX(e.clientX);
+    setPreviewTime(time);
+    if (isDragging) onSeek(time);
+  };
+
+  const endDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDragging) return;
+
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    setIsDragging(false);
+    // Touch has no hover state, so drop the preview once the finger lifts
+    if (e.pointerType !== 'mouse') setPreviewTime(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (duration === 0) return;
+
+    const steps: Record<string, number> = {
+      ArrowLeft: currentTime - KEY_STEP,
+      ArrowDown: currentTime - KEY_STEP,
+      ArrowRight: currentTime + KEY_STEP,
+      ArrowUp: currentTime + KEY_STEP,
+      PageDown: currentTime - duration * PAGE_STEP_RATIO,
+      PageUp: currentTime + duration * PAGE_STEP_RATIO,
+      Home: 0,
+      End: duration,
+    };
+    if (!(e.key in steps)) return;
+
+    // Also keeps the player's global arrow-key shortcuts from firing
+    e.preventDefault();
+    onSeek(Math.min(duration, Math.max(0, steps[e.key])));
+  };
+
+  const previewChapter = previewTime !== null
+    ? chapters.find(chapter => previewTime >= chapter.start && previewTime < chapter.end)
+    : undefined;
+  const thumbnail = previewTime !== null && getThumbnail ? getThumbnail(previewTime) : null;
+  // Keep a wide preview inside the bar near its ends
+  const previewHalfWidth = thumbnail ? thumbnail.width / 2 : 0;
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.floor(duration)}
+      aria-valuenow={Math.floor(currentTime)}
+      aria-valuetext={`${formatTime(currentTime)} of ${formatTime(duration)}`}
+      className="group relative w-full py-2 cursor-pointer touch-none select-none focus:outline-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+      onPointerLeave={() => !isDragging && setPreviewTime(null)}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        ref={trackRef}
+        className={`relative w-full rounded-full bg-white/30 transition-[height] group-focus-visible:ring-2 group-focus-visible:ring-ring ${
+          isDragging ? 'h-2.5' : 'h-1.5 group-hover:h-2.5'
+        }`}
+      >
+        {/* Buffered ranges */}
+        {buffered.map((range) => (
+          <div
+            key={range.start}
+            className="absolute inset-y-0 rounded-full bg-white/40"
+            style={{ left: `${toPercent(range.start)}%`, width: `${toPercent(range.end) - toPercent(range.start)}%` }}
+          />
+        ))}
+
+        {/* Hover position */}
+        {previewTime !== null && !isDragging && (
+          <div
+            className="absolute inset-y-0 left-0 rounded-full bg-white/30"
+            style={{ width: `${toPercent(previewTime)}%` }}
+          />
+        )}
+
+        {/* Played */}
+        <div
+          className="absolute inset-y-0 left-0 rounded-full bg-primary"
+          style={{ width: `${toPercent(currentTime)}%` }}
+        />
+
+        {/* Chapter gaps */}
+        {chapters.filter(chapter => chapter.start > 0).map((chapter) => (
+          <div
+            key={chapter.start}
+            className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-black/80"
+            style={{ left: `${toPercent(chapter.start)}%` }}
+          />
+        ))}
+
+        {/* Thumb */}
+        <div
+          className={`absolute top-1/2 h-3.5 w-3.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary shadow transition-transform ${
+            isDragging ? 'scale-100' : 'scale-0 group-hover:scale-100 group-focus-visible:scale-100'
+          }`}
+          style={{ left: `${toPercent(currentTime)}%` }}
+        />
+      </div>
+
+      {/* Hover/drag time preview */}
+      {previewTime !== null && (
+        <div
+          className="absolute bottom-full mb-1 -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none"
+          style={{
+            left: `clamp(${previewHalfWidth}px, ${toPercent(previewTime)}%, calc(100% - ${previewHalfWidth}px))`,
+          }}
+        >
+          {thumbnail && (
+            <div
+              className="rounded border border-white/40 bg-black shadow-lg"
+              style={{
+                width: thumbnail.width,
+                height: thumbnail.height,
+                backgroundImage: `url(${thumbnail.src})`,
+                backgroundPosition: `-${thumbnail.x}px -${thumbnail.y}px`,
+              }}
+            />
+          )}
+          {previewChapter?.title && (
+            <span className="max-w-48 truncate rounded bg-black/80 px-2 py-0.5 text-xs text-white">
+              {previewChapter.title}
+            </span>
+          )}
+          <span className="rounded bg-black/80 px-2 py-0.5 text-xs font-medium text-white">
+            {formatTime(previewTime)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoScrubber;
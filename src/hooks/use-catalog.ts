@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { CatalogValidationError, fetchCatalog, parseLectureCatalog, parseNoteCatalog } from '@/lib/catalog';
+import { LECTURES_URL, migrateLegacyProgress } from '@/lib/lectures';
+import { NOTES_URL } from '@/lib/notes';
+import { idbStorage } from '@/lib/storage';
+
+// Cached catalogs older than this are shown but refetched in the background
+const CATALOG_STALE_TIME = 5 * 60 * 1000;
+
+const catalogQueryOptions = {
+  staleTime: CATALOG_STALE_TIME,
+  // A malformed file stays malformed, so only network failures are retried
+  retry: (failureCount: number, error: Error) => !(error instanceof CatalogValidationError) && failureCount < 3,
+  retryDelay: (attempt: number) => Math.min(1000 * 2 ** attempt, 10000),
+};
+
+export function useLectures() {
+  return useQuery({
+    queryKey: ['catalog', 'lectures'],
+    queryFn: async () => {
+      const lectures = parseLectureCatalog(LECTURES_URL, await fetchCatalog(LECTURES_URL));
+      migrateLegacyProgress(lectures);
+      idbStorage.set('catalog_lectures', { data: lectures, updatedAt: Date.now() });
+      return lectures;
+    },
+    initialData: () => idbStorage.get('catalog_lectures')?.data,
+    initialDataUpdatedAt: () => idbStorage.get('catalog_lectures')?.updatedAt,
+    ...catalogQueryOptions,
+  });
+}
+
+export function useNotes() {
+  return useQuery({
+    queryKey: ['catalog', 'notes'],
+    queryFn: async () => {
+      const notes = parseNoteCatalog(NOTES_URL, await fetchCatalog(NOTES_URL));
+      idbStorage.set('catalog_notes', { data: notes, updatedAt: Date.now() });
+      return notes;
+    },
+    initialData: () => idbStorage.get('catalog_notes')?.data,
+    initialDataUpdatedAt: () => idbStorage.get('catalog_notes')?.updatedAt,
+    ...catalogQueryOptions,
+  });
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef } from 'react';
+
+export interface KeyboardShortcut {
+  // KeyboardEvent.key values that trigger the shortcut, e.g. ' ', 'k', 'ArrowLeft'
+  keys: string[];
+  // How the keys are shown in the help overlay
+  label: string;
+  description: string;
+  action: (event: KeyboardEvent) => void;
+}
+
+// Letters match regardless of Shift/Caps Lock; everything else matches exactly
+const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+// True when the user is typing into a field, e.g. the search Input
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['button', 'checkbox', 'radio', 'range', 'reset', 'submit'].includes(target.type);
+  }
+  return false;
+};
+
+// Keys that focused controls handle themselves. Anything else still reaches
+// the shortcuts, so e.g. K works right after clicking the play button.
+const CONTROL_KEYS: [selector: string, keys: string[]][] = [
+  ['button, a[href], [role="switch"], [role="checkbox"], [role="radio"]', [' ', 'Enter']],
+  ['[role="slider"]', ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'PageUp', 'PageDown', 'Home', 'End']],
+];
+
+// Open dialogs, menus and popovers handle their own keys
+const OVERLAY_SELECTOR = [
+  '[role="dialog"]',
+  '[role="alertdialog"]',
+  '[role="menu"]',
+  '[role="listbox"]',
+  '[data-radix-popper-content-wrapper]',
+].join(', ');
+
+// True when a key press belongs to the focused element rather than the page
+const isHandledByTarget = (target: EventTarget | null, key: string) => {
+  if (!(target instanceof Element)) return false;
+  if (target.closest(OVERLAY_SELECTOR)) return true;
+  return CONTROL_KEYS.some(([selector, keys]) => keys.includes(key) && !!target.closest(selector));
+};
+
+// Registers document-level shortcuts that stay quiet while the user types or
+// operates a focused control
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[], enabled = true) {
+  // Keep the latest handlers without re-binding the listener every render
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target) || isHandledByTarget(event.target, event.key)) return;
+
+      const key = normalizeKey(event.key);
+      const shortcut = shortcutsRef.current.find(s => s.keys.some(k => normalizeKey(k) === key));
+      if (!shortcut) return;
+
+      event.preventDefault();
+      shortcut.action(event);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { findNotesForLecture } from '@/lib/notes';
+import { useNotes } from './use-catalog';
+
+// The notes PDF matched to a lecture, or null when none matches (or the
+// notes catalog isn't available, since the split view is optional)
+export function useLectureNotes(title: string, notesId?: string) {
+  const { data: notes } = useNotes();
+  return useMemo(
+    () => (notes ? findNotesForLecture({ title, notesId }, notes) : null),
+    [notes, title, notesId],
+  );
+}
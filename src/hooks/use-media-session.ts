@@ -0,0 +1,116 @@
+import { useEffect, useRef } from 'react';
+
+// Seconds skipped when the OS doesn't say how far to seek
+const DEFAULT_SEEK_OFFSET = 10;
+
+interface MediaSessionOptions {
+  title: string;
+  artist: string;
+  album: string;
+  artwork: string;
+  // Omitted actions are unregistered so the lock screen hides their buttons
+  onPreviousTrack?: () => void;
+  onNextTrack?: () => void;
+}
+
+const setActionHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Browsers throw for actions they don't support
+  }
+};
+
+// Publishes the playing lecture to the Media Session API so lock screens,
+// notifications and hardware media keys can show and control it
+export function useMediaSession(videoRef: React.RefObject<HTMLVideoElement>, options: MediaSessionOptions) {
+  const { title, artist, album, artwork, onPreviousTrack, onNextTrack } = options;
+  // Track callbacks change every render; handlers read the latest ones
+  const trackHandlersRef = useRef({ onPreviousTrack, onNextTrack });
+  trackHandlersRef.current = { onPreviousTrack, onNextTrack };
+  const hasPreviousTrack = !!onPreviousTrack;
+  const hasNextTrack = !!onNextTrack;
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title,
+      artist,
+      album,
+      artwork: [{ src: new URL(artwork, window.location.href).toString() }],
+    });
+  }, [title, artist, album, artwork]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !('mediaSession' in navigator)) return;
+
+    const seekTo = (time: number) => {
+      const seekTime = Math.max(0, Math.min(time, video.duration || 0));
+      video.currentTime = seekTime;
+    };
+
+    setActionHandler('play', () => {
+      video.play().catch(error => {
+        console.error('Error playing video:', error);
+      });
+    });
+    setActionHandler('pause', () => video.pause());
+    setActionHandler('seekbackward', (details) => {
+      seekTo(video.currentTime - (details.seekOffset ?? DEFAULT_SEEK_OFFSET));
+    });
+    setActionHandler('seekforward', (details) => {
+      seekTo(video.currentTime + (details.seekOffset ?? DEFAULT_SEEK_OFFSET));
+    });
+    setActionHandler('seekto', (details) => {
+      if (details.seekTime === undefined) return;
+      if (details.fastSeek && 'fastSeek' in video) {
+        video.fastSeek(details.seekTime);
+      } else {
+        seekTo(details.seekTime);
+      }
+    });
+    setActionHandler('previoustrack', hasPreviousTrack ? () => trackHandlersRef.current.onPreviousTrack?.() : null);
+    setActionHandler('nexttrack', hasNextTrack ? () => trackHandlersRef.current.onNextTrack?.() : null);
+
+    const updatePositionState = () => {
+      if (!isFinite(video.duration) || video.duration <= 0) return;
+      try {
+        navigator.mediaSession.setPositionState({
+          duration: video.duration,
+          playbackRate: video.playbackRate,
+          position: Math.min(video.currentTime, video.duration),
+        });
+      } catch (error) {
+        console.error('Error updating media session position:', error);
+      }
+    };
+
+    const updatePlaybackState = () => {
+      navigator.mediaSession.playbackState = video.paused ? 'paused' : 'playing';
+      updatePositionState();
+    };
+
+    const positionEvents = ['loadedmetadata', 'durationchange', 'ratechange', 'seeked'];
+    const playbackEvents = ['play', 'pause', 'ended'];
+    positionEvents.forEach(event => video.addEventListener(event, updatePositionState));
+    playbackEvents.forEach(event => video.addEventListener(event, updatePlaybackState));
+    updatePlaybackState();
+
+    return () => {
+      positionEvents.forEach(event => video.removeEventListener(event, updatePositionState));
+      playbackEvents.forEach(event => video.removeEventListener(event, updatePlaybackState));
+      (['play', 'pause', 'seekbackward', 'seekforward', 'seekto', 'previoustrack', 'nexttrack'] as const)
+        .forEach(action => setActionHandler(action, null));
+      navigator.mediaSession.playbackState = 'none';
+    };
+  }, [videoRef, hasPreviousTrack, hasNextTrack]);
+
+  // Drop the lock-screen entry once the player goes away
+  useEffect(() => {
+    return () => {
+      if ('mediaSession' in navigator) navigator.mediaSession.metadata = null;
+    };
+  }, []);
+}
@@ -0,0 +1,18 @@
+import { useSearchParams } from 'react-router-dom';
+
+// The current tab's search text, kept in ?q= so it survives reloads and can
+// be shared. Each tab has its own route, so their searches stay separate.
+export function useSearchQuery(): [string, (query: string) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const setQuery = (query: string) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      if (query) next.set('q', query);
+      else next.delete('q');
+      return next;
+    }, { replace: true });
+  };
+
+  return [searchParams.get('q') ?? '', setQuery];
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { ThumbnailCue, parseThumbnailVtt } from '@/lib/thumbnails';
+
+// Loads a lecture's thumbnail VTT; resolves to no cues when there is none
+export function useThumbnailTrack(url?: string) {
+  const [cues, setCues] = useState<ThumbnailCue[]>([]);
+
+  useEffect(() => {
+    setCues([]);
+    if (!url) return;
+
+    let cancelled = false;
+    const loadThumbnails = async () => {
+      try {
+        const absoluteUrl = new URL(url, window.location.href).toString();
+        const response = await fetch(absoluteUrl);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const parsed = parseThumbnailVtt(await response.text(), absoluteUrl);
+        if (!cancelled) setCues(parsed);
+      } catch (error) {
+        // Previews are optional, so the scrubber just shows times without them
+        console.error('Error loading thumbnail track:', error);
+      }
+    };
+
+    loadThumbnails();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return cues;
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { SavedPlaylist, moveItem } from '@/lib/queue';
+import { storage } from '@/lib/storage';
+
+interface QueueState {
+  queue: string[];
+  playlists: SavedPlaylist[];
+}
+
+// Shared by every component using the hook, like the toast store
+let memoryState: QueueState = {
+  queue: storage.get('watch_queue') ?? [],
+  playlists: storage.get('playlists') ?? [],
+};
+const listeners: Array<(state: QueueState) => void> = [];
+
+const setQueueState = (changes: Partial<QueueState>) => {
+  memoryState = { ...memoryState, ...changes };
+  if (changes.queue) storage.set('watch_queue', memoryState.queue);
+  if (changes.playlists) storage.set('playlists', memoryState.playlists);
+  listeners.forEach(listener => listener(memoryState));
+};
+
+const addToQueue = (lectureId: string) => {
+  if (memoryState.queue.includes(lectureId)) return;
+  setQueueState({ queue: [...memoryState.queue, lectureId] });
+};
+
+const removeFromQueue = (lectureId: string) => {
+  setQueueState({ queue: memoryState.queue.filter(id => id !== lectureId) });
+};
+
+const moveInQueue = (from: number, to: number) => {
+  setQueueState({ queue: moveItem(memoryState.queue, from, to) });
+};
+
+const clearQueue = () => {
+  setQueueState({ queue: [] });
+};
+
+// Save the current queue under `name`, replacing a playlist with the same name
+const savePlaylist = (name: string) => {
+  const trimmed = name.trim();
+  if (!trimmed || memoryState.queue.length === 0) return;
+
+  const playlist: SavedPlaylist = {
+    id: `pl${Date.now()}`,
+    name: trimmed,
+    lectureIds: [...memoryState.queue],
+    createdAt: Date.now(),
+  };
+  setQueueState({
+    playlists: [...memoryState.playlists.filter(p => p.name !== trimmed), playlist],
+  });
+};
+
+const loadPlaylist = (playlistId: string) => {
+  const playlist = memoryState.playlists.find(p => p.id === playlistId);
+  if (playlist) setQueueState({ queue: [...playlist.lectureIds] });
+};
+
+const deletePlaylist = (playlistId: string) => {
+  setQueueState({ playlists: memoryState.playlists.filter(p => p.id !== playlistId) });
+};
+
+export function useWatchQueue() {
+  const [state, setState] = useState<QueueState>(memoryState);
+
+  useEffect(() => {
+    listeners.push(setState);
+    setState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    ...state,
+    addToQueue,
+    removeFromQueue,
+    moveInQueue,
+    clearQueue,
+    savePlaylist,
+    loadPlaylist,
+    deletePlaylist,
+  };
+}
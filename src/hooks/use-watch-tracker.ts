@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import { WatchRecord, getWatchRecord, recordWatchedIntervals, saveResumePosition } from '@/lib/watch-history';
+
+// Larger jumps between timeupdates are treated as seeks, not playback
+const MAX_TICK_GAP = 3;
+// How often a continuous stretch of playback is written to storage (ms)
+const FLUSH_INTERVAL = 5000;
+
+// Records the ranges of a lecture that actually play, plus the resume
+// position while `savePosition` is true, and reports the lecture's watch
+// record as it grows
+export function useWatchTracker(
+  videoRef: React.RefObject<HTMLVideoElement>,
+  lectureId: string,
+  savePosition = true,
+) {
+  const [record, setRecord] = useState<WatchRecord | null>(() => getWatchRecord(lectureId));
+  // Read at flush time so toggling it doesn't restart tracking
+  const savePositionRef = useRef(savePosition);
+  savePositionRef.current = savePosition;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    setRecord(getWatchRecord(lectureId));
+
+    // Start of the stretch currently being played, or null between stretches
+    let segmentStart: number | null = null;
+    let lastTime = 0;
+    let lastFlush = Date.now();
+
+    const flush = () => {
+      lastFlush = Date.now();
+      if (savePositionRef.current) saveResumePosition(lectureId, video.currentTime, video.duration);
+      if (segmentStart === null || lastTime <= segmentStart) return;
+
+      setRecord(recordWatchedIntervals(lectureId, [{ start: segmentStart, end: lastTime }], video.duration));
+      segmentStart = lastTime;
+    };
+
+    const endSegment = () => {
+      flush();
+      segmentStart = null;
+    };
+
+    const handleTimeUpdate = () => {
+      if (video.paused || video.seeking) return;
+
+      const time = video.currentTime;
+      if (segmentStart === null || time < lastTime || time - lastTime > MAX_TICK_GAP) {
+        endSegment();
+        segmentStart = time;
+      }
+      lastTime = time;
+
+      if (Date.now() - lastFlush >= FLUSH_INTERVAL) flush();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('seeking', endSegment);
+    video.addEventListener('pause', endSegment);
+    video.addEventListener('ended', endSegment);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      endSegment();
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('seeking', endSegment);
+      video.removeEventListener('pause', endSegment);
+      video.removeEventListener('ended', endSegment);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [videoRef, lectureId]);
+
+  return record;
+}
@@ -0,0 +1,42 @@
+import { storage } from './storage';
+
+// Sidecar .vtt file listed next to a lecture in the catalog
+export interface SubtitleTrack {
+  src: string;
+  lang: string;
+  label: string;
+}
+
+// A track the user can pick, from the HLS manifest or a sidecar file
+export interface CaptionOption {
+  id: string;
+  label: string;
+  lang: string;
+  source: 'hls' | 'sidecar';
+  index: number;
+}
+
+export type CaptionSize = 'small' | 'medium' | 'large';
+export type CaptionBackground = 'none' | 'translucent' | 'solid';
+
+export interface CaptionSettings {
+  // Preferred language, or null when captions are off
+  language: string | null;
+  size: CaptionSize;
+  background: CaptionBackground;
+}
+
+export const defaultCaptionSettings: CaptionSettings = {
+  language: null,
+  size: 'medium',
+  background: 'translucent',
+};
+
+export const loadCaptionSettings = (): CaptionSettings => ({
+  ...defaultCaptionSettings,
+  ...storage.get('caption_settings'),
+});
+
+export const saveCaptionSettings = (settings: CaptionSettings) => {
+  storage.set('caption_settings', settings);
+};
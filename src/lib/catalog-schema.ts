@@ -0,0 +1,58 @@
+// zod schemas for the catalog files in public/data. Kept free of browser and
+// app imports so scripts/validate-catalog.ts can load them under Node.
+
+import { z } from 'zod';
+
+// Catalog files are `{ "version": 2, "lectures": [...] }` (or "notes"). A bare
+// array is the original version 1 format, where only title and link were set
+// and everything else is worked out from the title.
+export const CATALOG_VERSION = 2;
+
+const subtitleSchema = z.object({
+  src: z.string().min(1),
+  lang: z.string().min(1),
+  label: z.string().min(1),
+});
+
+const chapterSchema = z.object({
+  start: z.number().nonnegative(),
+  title: z.string(),
+});
+
+export const lectureSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  link: z.string().url(),
+  category: z.string().min(1),
+  // Position within the category
+  order: z.number().int().nonnegative().optional(),
+  durationSec: z.number().positive().optional(),
+  description: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  // ID of the matching entry in the notes catalog
+  notesId: z.string().min(1).optional(),
+  subtitles: z.array(subtitleSchema).optional(),
+  chapters: z.array(chapterSchema).optional(),
+  thumbnails: z.string().optional(),
+});
+
+export const noteSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  link: z.string().url(),
+  category: z.string().min(1),
+  order: z.number().int().nonnegative().optional(),
+});
+
+export const legacyLectureCatalogSchema = z.array(lectureSchema.partial({ id: true, category: true }));
+export const legacyNoteCatalogSchema = z.array(noteSchema.partial({ id: true, category: true }));
+
+export const lectureCatalogSchema = z.object({
+  version: z.literal(CATALOG_VERSION),
+  lectures: z.array(lectureSchema),
+});
+
+export const noteCatalogSchema = z.object({
+  version: z.literal(CATALOG_VERSION),
+  notes: z.array(noteSchema),
+});
@@ -0,0 +1,52 @@
+import type { z } from 'zod';
+import {
+  legacyLectureCatalogSchema,
+  legacyNoteCatalogSchema,
+  lectureCatalogSchema,
+  noteCatalogSchema,
+} from './catalog-schema';
+import type { Lecture } from './lectures';
+import type { Note } from './notes';
+
+// Last successful response for a catalog file, kept so repeat visits can show
+// it straight away while a fresh copy loads
+export interface CachedCatalog<T> {
+  data: T[];
+  updatedAt: number;
+}
+
+// Thrown for catalog files that don't match the schema; retrying won't help
+export class CatalogValidationError extends Error {
+  constructor(file: string, issues: z.ZodIssue[]) {
+    const details = issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(`Invalid catalog ${file}: ${details}`);
+    this.name = 'CatalogValidationError';
+  }
+}
+
+// zod marks every key optional in its inferred types when strictNullChecks is
+// off, as it is here, so the parsed data is cast back to the app's interfaces
+export const parseLectureCatalog = (file: string, raw: unknown): Lecture[] => {
+  const result = Array.isArray(raw)
+    ? legacyLectureCatalogSchema.safeParse(raw)
+    : lectureCatalogSchema.transform(catalog => catalog.lectures).safeParse(raw);
+  if (!result.success) throw new CatalogValidationError(file, result.error.issues);
+  return result.data as Lecture[];
+};
+
+export const parseNoteCatalog = (file: string, raw: unknown): Note[] => {
+  const result = Array.isArray(raw)
+    ? legacyNoteCatalogSchema.safeParse(raw)
+    : noteCatalogSchema.transform(catalog => catalog.notes).safeParse(raw);
+  if (!result.success) throw new CatalogValidationError(file, result.error.issues);
+  return result.data as Note[];
+};
+
+export const fetchCatalog = async (url: string): Promise<unknown> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json();
+};
@@ -0,0 +1,63 @@
+import { CATEGORY_RULES, FALLBACK_CATEGORY, type CategoryRule } from './category-rules';
+
+export type Category = Omit<CategoryRule, 'patterns'>;
+
+export interface Classification {
+  category: Category;
+  // Where the category came from: the catalog field, a title pattern, or neither
+  source: 'catalog' | 'title' | 'fallback';
+  pattern?: RegExp;
+}
+
+const toCategory = ({ patterns: _patterns, ...category }: CategoryRule): Category => category;
+
+const normaliseKey = (value: string) => value.normalize('NFC').trim().toLowerCase();
+
+// The rule a catalog "category" value refers to, by display name or id
+export const findCategoryRule = (name: string) => {
+  const key = normaliseKey(name);
+  return CATEGORY_RULES.find(rule => normaliseKey(rule.name) === key || rule.id === key) ?? null;
+};
+
+// Classify a catalog entry. An explicit category nothing in the rules file
+// knows about is kept as-is and sorted after the known ones.
+export const classify = (title: string, explicitCategory?: string): Classification => {
+  if (explicitCategory) {
+    const rule = findCategoryRule(explicitCategory);
+    return {
+      category: rule
+        ? toCategory(rule)
+        : { ...FALLBACK_CATEGORY, id: normaliseKey(explicitCategory), name: explicitCategory.trim() },
+      source: 'catalog',
+    };
+  }
+
+  const normalisedTitle = title.normalize('NFC');
+  for (const rule of CATEGORY_RULES) {
+    const pattern = rule.patterns.find(candidate => candidate.test(normalisedTitle));
+    if (pattern) return { category: toCategory(rule), source: 'title', pattern };
+  }
+
+  return { category: FALLBACK_CATEGORY, source: 'fallback' };
+};
+
+export const getCategory = (entry: { title: string; category?: string }) =>
+  classify(entry.title, entry.category).category;
+
+// Group entries by category name, with groups in rule order
+export const groupByCategory = <T extends { title: string; category?: string }>(entries: T[]) => {
+  const groups = new Map<string, { category: Category; entries: T[] }>();
+  entries.forEach(entry => {
+    const category = getCategory(entry);
+    const group = groups.get(category.name);
+    if (group) {
+      group.entries.push(entry);
+    } else {
+      groups.set(category.name, { category, entries: [entry] });
+    }
+  });
+
+  return [...groups.values()].sort((a, b) =>
+    a.category.order - b.category.order || a.category.name.localeCompare(b.category.name)
+  );
+};
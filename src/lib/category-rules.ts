@@ -0,0 +1,107 @@
+// Categories for lectures and notes. Catalog entries with an explicit
+// category are matched to a rule by name or id; entries without one are
+// classified by testing their title against each rule's patterns in the order
+// listed here, first match wins, so specific topics come before catch-alls
+// like Chapters and Practice. Groups are shown by `order` instead. Adding a
+// topic only needs a new entry here; run `npm run categories:preview` to check
+// how the catalogs come out.
+
+export interface CategoryRule {
+  id: string;
+  // Display name, and the value catalogs use in their "category" field
+  name: string;
+  // lucide-react icon name, see CategoryIcon
+  icon: string;
+  // Position of the category's group in the lecture and notes lists
+  order: number;
+  // Tested against the NFC-normalised title, Latin and Devanagari spellings
+  patterns: RegExp[];
+}
+
+export const CATEGORY_RULES: CategoryRule[] = [
+  {
+    id: 'anuvad',
+    name: 'Anuvad',
+    icon: 'Languages',
+    order: 10,
+    patterns: [/anuv[a]+d/iu, /अनुवाद/u],
+  },
+  {
+    id: 'vachya',
+    name: 'Vachya',
+    icon: 'Repeat',
+    order: 20,
+    patterns: [/v[a]+chya/iu, /वाच्य/u],
+  },
+  {
+    id: 'ashuddhi-sanshodhan',
+    name: 'Ashuddhi Sanshodhan',
+    icon: 'SpellCheck',
+    order: 30,
+    patterns: [/ashuddhi/iu, /sanshodhan/iu, /अशुद्धि/u, /संशोधन/u],
+  },
+  {
+    id: 'pratyay',
+    name: 'Pratyay',
+    icon: 'Puzzle',
+    order: 40,
+    patterns: [/pratyay|partay/iu, /प्रत्यय/u],
+  },
+  {
+    id: 'sandhi',
+    name: 'Sandhi',
+    icon: 'Link',
+    order: 50,
+    patterns: [/sandhi/iu, /सन्धि/u, /संधि/u],
+  },
+  {
+    id: 'samas',
+    name: 'Samas',
+    icon: 'Combine',
+    order: 60,
+    patterns: [/sam[a]+s/iu, /समास/u],
+  },
+  {
+    id: 'alankar',
+    name: 'Alankar',
+    icon: 'Sparkles',
+    order: 70,
+    patterns: [/alank[a]+r/iu, /अलंकार/u, /अलङ्कार/u],
+  },
+  {
+    id: 'chapters',
+    name: 'Chapters',
+    icon: 'BookOpen',
+    order: 35,
+    patterns: [/chapter/iu, /अध्याय/u, /पाठ/u],
+  },
+  {
+    id: 'solutions',
+    name: 'Solutions',
+    icon: 'CheckCheck',
+    order: 90,
+    patterns: [/solution/iu, /\bdpp\b/iu],
+  },
+  {
+    id: 'practice',
+    name: 'Practice',
+    icon: 'PenLine',
+    order: 100,
+    patterns: [/practice|pracrice/iu, /अभ्यास/u],
+  },
+  {
+    id: 'resources',
+    name: 'Resources',
+    icon: 'FolderOpen',
+    order: 110,
+    patterns: [/planner/iu, /\bbook\b/iu, /योजना/u],
+  },
+];
+
+// Used for titles no rule matches
+export const FALLBACK_CATEGORY: Omit<CategoryRule, 'patterns'> = {
+  id: 'general',
+  name: 'General',
+  icon: 'Folder',
+  order: 1000,
+};
@@ -0,0 +1,35 @@
+// A chapter listed on a lecture in the catalog, e.g. one DPP question
+export interface Chapter {
+  // Start time in seconds
+  start: number;
+  title: string;
+}
+
+export interface ChapterSegment extends Chapter {
+  end: number;
+}
+
+export const sortChapters = (chapters: Chapter[] = []) =>
+  [...chapters].filter(chapter => chapter.start >= 0).sort((a, b) => a.start - b.start);
+
+// Index of the chapter playing at `time`, or -1 before the first chapter
+export const getChapterIndexAt = (chapters: Chapter[], time: number) => {
+  let current = -1;
+  chapters.forEach((chapter, index) => {
+    if (chapter.start <= time) current = index;
+  });
+  return current;
+};
+
+// Chapters with their end times, clipped to the video duration. Anything
+// before the first chapter becomes an untitled leading segment.
+export const getChapterSegments = (chapters: Chapter[], duration: number): ChapterSegment[] => {
+  const inRange = chapters.filter(chapter => chapter.start < duration);
+  if (inRange.length === 0) return [];
+
+  const covered = inRange[0].start > 0 ? [{ start: 0, title: '' }, ...inRange] : inRange;
+  return covered.map((chapter, index) => ({
+    ...chapter,
+    end: index + 1 < covered.length ? covered[index + 1].start : duration,
+  }));
+};
@@ -0,0 +1,139 @@
+import Hls from 'hls.js';
+
+export type PlaybackErrorKind = 'network' | 'media' | 'unsupported' | 'other';
+
+// What the user sees once recovery has given up
+export const playbackErrorMessages: Record<PlaybackErrorKind, { title: string; description: string }> = {
+  network: {
+    title: 'Network error',
+    description: "We couldn't reach the video server. Check your internet connection and try again.",
+  },
+  media: {
+    title: 'Playback error',
+    description: "Your browser couldn't decode this video. Try again, or switch to a lower quality.",
+  },
+  unsupported: {
+    title: 'Browser not supported',
+    description: 'HLS is not supported in this browser. Please try a recent version of Chrome, Firefox or Safari.',
+  },
+  other: {
+    title: 'Video unavailable',
+    description: 'Something went wrong while loading this video. Please try again.',
+  },
+};
+
+// Maps HTMLMediaElement.error codes for native (Safari) playback
+export const getMediaErrorKind = (error: MediaError | null): PlaybackErrorKind => {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_NETWORK:
+      return 'network';
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'media';
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return 'unsupported';
+    default:
+      return 'other';
+  }
+};
+
+const MAX_NETWORK_RETRIES = 4;
+const BASE_RETRY_DELAY = 1000;
+// A second media error this soon after recovering escalates to a codec swap
+const MEDIA_ERROR_WINDOW = 5000;
+
+const manifestErrors: string[] = [
+  Hls.ErrorDetails.MANIFEST_LOAD_ERROR,
+  Hls.ErrorDetails.MANIFEST_LOAD_TIMEOUT,
+];
+
+interface RecoveryCallbacks {
+  // A retry is scheduled; null once playback is healthy again
+  onRecovering: (message: string | null) => void;
+  // In-place recovery is exhausted; the caller should rebuild the Hls instance
+  onGiveUp: (kind: PlaybackErrorKind) => void;
+}
+
+// Tiered recovery for fatal hls.js errors: network errors retry with
+// exponential backoff, media errors try recoverMediaError and then
+// swapAudioCodec, and anything else goes straight to onGiveUp. Pass
+// `startMessage` for an instance that replaces a failed one, so the message
+// shows until its first fragment buffers.
+// Returns a function that cancels pending retries.
+export const attachErrorRecovery = (
+  hls: Hls,
+  { onRecovering, onGiveUp }: RecoveryCallbacks,
+  startMessage?: string,
+) => {
+  let networkRetries = 0;
+  let retryTimeout: number | undefined;
+  let lastMediaRecovery = 0;
+  let codecSwapped = false;
+  let recovering = false;
+
+  const reportRecovering = (message: string) => {
+    recovering = true;
+    onRecovering(message);
+  };
+
+  if (startMessage) reportRecovering(startMessage);
+
+  hls.on(Hls.Events.ERROR, (event, data) => {
+    if (!data.fatal) return;
+
+    switch (data.type) {
+      case Hls.ErrorTypes.NETWORK_ERROR: {
+        if (networkRetries >= MAX_NETWORK_RETRIES) {
+          onGiveUp('network');
+          return;
+        }
+
+        const delay = BASE_RETRY_DELAY * 2 ** networkRetries;
+        networkRetries++;
+        reportRecovering(`Connection problem. Retrying in ${delay / 1000}s...`);
+
+        window.clearTimeout(retryTimeout);
+        retryTimeout = window.setTimeout(() => {
+          // startLoad() only resumes fragment loading; a failed manifest must be fetched again
+          if (manifestErrors.includes(data.details) && hls.url) {
+            hls.loadSource(hls.url);
+          } else {
+            hls.startLoad();
+          }
+        }, delay);
+        break;
+      }
+
+      case Hls.ErrorTypes.MEDIA_ERROR: {
+        const now = Date.now();
+        if (now - lastMediaRecovery > MEDIA_ERROR_WINDOW) {
+          reportRecovering('Recovering playback...');
+          hls.recoverMediaError();
+        } else if (!codecSwapped) {
+          codecSwapped = true;
+          reportRecovering('Recovering playback...');
+          hls.swapAudioCodec();
+          hls.recoverMediaError();
+        } else {
+          onGiveUp('media');
+          return;
+        }
+        lastMediaRecovery = now;
+        break;
+      }
+
+      default:
+        onGiveUp('other');
+    }
+  });
+
+  // Buffering a fragment means the stream is healthy again
+  hls.on(Hls.Events.FRAG_BUFFERED, () => {
+    networkRetries = 0;
+    if (recovering) {
+      recovering = false;
+      onRecovering(null);
+    }
+  });
+
+  return () => window.clearTimeout(retryTimeout);
+};
@@ -0,0 +1,71 @@
+import { getCategory } from './categories';
+import { Lecture, getLectureId } from './lectures';
+import { type WatchStatus, getWatchRecord, getWatchStatus } from './watch-history';
+
+// 'number' keeps the category groups, the others list lectures in one run
+export type LectureSort = 'number' | 'title' | 'recent';
+
+export interface LectureFilters {
+  // Category ids; empty means every category
+  categories: string[];
+  status: WatchStatus | null;
+  sort: LectureSort;
+}
+
+export const DEFAULT_LECTURE_FILTERS: LectureFilters = {
+  categories: [],
+  status: null,
+  sort: 'number',
+};
+
+const STATUSES: WatchStatus[] = ['unwatched', 'in-progress', 'completed'];
+const SORTS: LectureSort[] = ['number', 'title', 'recent'];
+
+// Filters from the query string, e.g. ?category=anuvad,vachya&status=in-progress&sort=recent.
+// Unknown values are ignored rather than rejected, so old bookmarks still open.
+export const parseLectureFilters = (params: URLSearchParams): LectureFilters => {
+  const status = params.get('status') as WatchStatus;
+  const sort = params.get('sort') as LectureSort;
+  return {
+    categories: (params.get('category') ?? '').split(',').filter(Boolean),
+    status: STATUSES.includes(status) ? status : null,
+    sort: SORTS.includes(sort) ? sort : DEFAULT_LECTURE_FILTERS.sort,
+  };
+};
+
+// Copy of `params` with the filters applied, leaving other parameters alone
+// and omitting defaults to keep URLs short
+export const writeLectureFilters = (params: URLSearchParams, filters: LectureFilters) => {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | null) => {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  };
+
+  set('category', filters.categories.join(','));
+  set('status', filters.status);
+  set('sort', filters.sort === DEFAULT_LECTURE_FILTERS.sort ? null : filters.sort);
+  return next;
+};
+
+export const countActiveFilters = (filters: LectureFilters) =>
+  filters.categories.length + (filters.status ? 1 : 0) + (filters.sort !== DEFAULT_LECTURE_FILTERS.sort ? 1 : 0);
+
+export const filterLectures = (lectures: Lecture[], filters: LectureFilters) =>
+  lectures.filter(lecture =>
+    (filters.categories.length === 0 || filters.categories.includes(getCategory(lecture).id))
+    && (!filters.status || getWatchStatus(getLectureId(lecture)) === filters.status)
+  );
+
+// Lectures in the order a non-default sort asks for; never-watched lectures
+// go last when sorting by recently watched. 'number' is left to groupLectures.
+export const sortLectures = (lectures: Lecture[], sort: LectureSort) => {
+  if (sort === 'title') {
+    return [...lectures].sort((a, b) => a.title.localeCompare(b.title));
+  }
+  if (sort === 'recent') {
+    const watchedAt = (lecture: Lecture) => getWatchRecord(getLectureId(lecture))?.lastWatchedAt ?? 0;
+    return [...lectures].sort((a, b) => watchedAt(b) - watchedAt(a));
+  }
+  return lectures;
+};
@@ -0,0 +1,135 @@
+import { storage } from './storage';
+import { getCategory, groupByCategory } from './categories';
+import type { SubtitleTrack } from './captions';
+import type { Chapter } from './chapters';
+
+// Validated against lectureSchema in catalog-schema.ts. Fields other than
+// title and link are optional only because version 1 catalogs lacked them.
+export interface Lecture {
+  id?: string;
+  title: string;
+  link: string;
+  category?: string;
+  // Position within the category
+  order?: number;
+  durationSec?: number;
+  description?: string;
+  tags?: string[];
+  // ID of the matching entry in the notes catalog
+  notesId?: string;
+  subtitles?: SubtitleTrack[];
+  chapters?: Chapter[];
+  // URL of a WebVTT track of sprite-sheet frames for seek previews
+  thumbnails?: string;
+}
+
+export const LECTURES_URL = '/data/master-shahablectures.json';
+
+const PROGRESS_PREFIX = 'video_progress_';
+
+// 53-bit string hash (cyrb53), used for catalog entries without an explicit id
+export const hashString = (value: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Stable ID for a lecture: the explicit catalog id, or a hash of the full URL
+export const getLectureId = (lecture: Lecture) => lecture.id || `url-${hashString(lecture.link)}`;
+
+// App route that plays a lecture
+export const getLecturePath = (lectureId: string) => `/lectures/${encodeURIComponent(lectureId)}`;
+
+export const getProgressKey = (lectureId: string) => `${PROGRESS_PREFIX}${lectureId}` as const;
+
+// Old builds keyed progress by the first 20 chars of btoa(url), which every
+// lecture on the same CDN host shares
+const getLegacyProgressKey = (lecture: Lecture) => {
+  try {
+    return `${PROGRESS_PREFIX}${btoa(lecture.link).substring(0, 20)}`;
+  } catch {
+    return null;
+  }
+};
+
+// One-time move of legacy progress slots onto per-lecture keys. A slot that
+// several lectures collided on can't be attributed to any one of them, so it
+// is left where it is rather than showing the same time on every card or
+// deleting the user's only copy.
+export const migrateLegacyProgress = (lectures: Lecture[]) => {
+  try {
+    if (storage.get('legacy_progress_migrated')) return;
+
+    const owners = new Map<string, Lecture[]>();
+    lectures.forEach(lecture => {
+      const legacyKey = getLegacyProgressKey(lecture);
+      if (!legacyKey) return;
+      owners.set(legacyKey, [...(owners.get(legacyKey) || []), lecture]);
+    });
+
+    owners.forEach((owned, legacyKey) => {
+      const saved = parseFloat(storage.legacy.get(legacyKey) ?? '');
+      if (isNaN(saved)) return;
+
+      if (owned.length !== 1) return;
+
+      const newKey = getProgressKey(getLectureId(owned[0]));
+      if (storage.get(newKey) === null) {
+        storage.set(newKey, saved);
+      }
+      storage.legacy.remove(legacyKey);
+    });
+
+    storage.set('legacy_progress_migrated', Date.now());
+  } catch (error) {
+    console.error('Error migrating video progress:', error);
+  }
+};
+
+export const getLectureNumber = (title: string) => {
+  const match = title.match(/lec\s+(\d+)/i);
+  return match ? parseInt(match[1]) : null;
+};
+
+export const getLectureCategory = (lecture: Lecture) => getCategory(lecture).name;
+
+export const getLectureOrder = (lecture: Lecture) => lecture.order ?? getLectureNumber(lecture.title);
+
+// Lectures grouped by category in rule order, each group sorted by order then title
+export const groupLectures = (lectures: Lecture[]) => {
+  const grouped: Record<string, Lecture[]> = {};
+
+  groupByCategory(lectures).forEach(({ category, entries }) => {
+    grouped[category.name] = entries.sort((a, b) => {
+      const aNum = getLectureOrder(a);
+      const bNum = getLectureOrder(b);
+      if (aNum !== null && bNum !== null) {
+        return aNum - bNum;
+      }
+      return a.title.localeCompare(b.title);
+    });
+  });
+
+  return grouped;
+};
+
+// The lecture `offset` places from `current` in the order LecturesSection shows them
+const getAdjacentLecture = (lectures: Lecture[], current: Lecture, offset: number) => {
+  const ordered = Object.values(groupLectures(lectures)).flat();
+  const currentId = getLectureId(current);
+  const index = ordered.findIndex(lecture => getLectureId(lecture) === currentId);
+  return index >= 0 ? ordered[index + offset] ?? null : null;
+};
+
+export const getNextLecture = (lectures: Lecture[], current: Lecture) =>
+  getAdjacentLecture(lectures, current, 1);
+
+export const getPreviousLecture = (lectures: Lecture[], current: Lecture) =>
+  getAdjacentLecture(lectures, current, -1);
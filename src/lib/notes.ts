@@ -0,0 +1,79 @@
+import { getCategory } from './categories';
+import { type Lecture, hashString } from './lectures';
+
+// Validated against noteSchema in catalog-schema.ts; id and category can be
+// missing from version 1 catalogs
+export interface Note {
+  id?: string;
+  title: string;
+  link: string;
+  category?: string;
+  order?: number;
+}
+
+export const NOTES_URL = '/data/master-shahab-notes.json';
+
+// Stable ID for a note, used in /notes/:noteId; same fallback as getLectureId
+export const getNoteId = (note: Note) => note.id || `url-${hashString(note.link)}`;
+
+export const getNoteCategory = (note: Note) => getCategory(note).name;
+
+// Words that describe the kind of material rather than its topic
+const NOISE_WORDS = new Set([
+  'lec', 'notes', 'live', 'pdf', 'solution', 'dpp', 'part', 'question',
+  'practice', 'pracrice', 'sheet', 'book', 'added', 'extra',
+]);
+const PRACTICE_PATTERN = /practice|pracrice|dpp|sheet/i;
+
+interface TitleKey {
+  topics: string[];
+  number: number | null;
+  isPractice: boolean;
+}
+
+// Break a title like "Vachya | वाच्य - 01 Live Notes" into comparable parts
+const getTitleKey = (title: string): TitleKey => {
+  const numberMatch = title.match(/\d+/);
+  return {
+    topics: title
+      .toLowerCase()
+      .split(/[^\p{L}\p{M}]+/u)
+      .filter(word => word.length > 1 && !NOISE_WORDS.has(word)),
+    number: numberMatch ? parseInt(numberMatch[0]) : null,
+    isPractice: PRACTICE_PATTERN.test(title),
+  };
+};
+
+// Higher is a closer match; 0 means the note is for a different topic or lecture
+const scoreMatch = (lecture: TitleKey, note: TitleKey) => {
+  if (!lecture.topics.some(topic => note.topics.includes(topic))) return 0;
+
+  const sameKind = lecture.isPractice === note.isPractice;
+  if (note.number !== null && note.number === lecture.number) return sameKind ? 3 : 1;
+  // Practice sets usually have one unnumbered PDF for the whole topic
+  if (note.number === null && sameKind && lecture.isPractice) return 2;
+  return 0;
+};
+
+// The notes PDF that goes with a lecture: its explicit notesId, or for
+// catalogs without one a match on topic words (Latin or Devanagari), lecture
+// number and whether both are practice material
+export const findNotesForLecture = (lecture: Pick<Lecture, 'title' | 'notesId'>, notes: Note[]) => {
+  if (lecture.notesId) {
+    return notes.find(note => getNoteId(note) === lecture.notesId) ?? null;
+  }
+
+  const lectureKey = getTitleKey(lecture.title);
+  let best: Note | null = null;
+  let bestScore = 0;
+
+  for (const note of notes) {
+    const score = scoreMatch(lectureKey, getTitleKey(note.title));
+    if (score > bestScore) {
+      best = note;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,23 @@
+// A named, saved copy of the watch queue
+export interface SavedPlaylist {
+  id: string;
+  name: string;
+  lectureIds: string[];
+  createdAt: number;
+}
+
+export const moveItem = <T>(items: T[], from: number, to: number) => {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+// The queued lecture to play after `currentId`: the one following it when it
+// is in the queue, otherwise the head of the queue
+export const getQueuedNextId = (queue: string[], currentId: string) => {
+  const index = queue.indexOf(currentId);
+  if (index === -1) return queue[0] ?? null;
+  return queue[index + 1] ?? null;
+};
@@ -0,0 +1,155 @@
+import { phoneticKey } from './transliterate';
+
+// [start, end) offsets into the original field text
+export type HighlightRange = [number, number];
+
+export interface SearchField<T> {
+  name: string;
+  // Matches in later fields count for less than matches in the title
+  weight: number;
+  get: (item: T) => string | undefined;
+}
+
+export interface SearchMatch<T> {
+  item: T;
+  score: number;
+  // Matched ranges per field name
+  highlights: Record<string, HighlightRange[]>;
+}
+
+interface IndexedWord {
+  key: string;
+  lower: string;
+  start: number;
+  end: number;
+}
+
+interface QueryToken {
+  key: string;
+  lower: string;
+}
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+const tokenize = (text: string): IndexedWord[] =>
+  [...text.normalize('NFC').matchAll(WORD_PATTERN)].map(match => ({
+    key: phoneticKey(match[0]),
+    lower: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+// Optimal string alignment distance: edits plus adjacent transpositions
+const editDistance = (a: string, b: string) => {
+  if (Math.abs(a.length - b.length) > 2) return Infinity;
+
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+// Typos allowed for a query word; short words have to match exactly
+const getTolerance = (length: number) => (length >= 6 ? 2 : length >= 4 ? 1 : 0);
+
+// 1 for the same word, less for prefixes, substrings and near misses, 0 for no match
+const scoreWord = (token: QueryToken, word: IndexedWord) => {
+  if (word.key === token.key) return 1;
+  if (word.key.startsWith(token.key)) return 0.8;
+  if (token.key.length >= 3 && word.key.includes(token.key)) return 0.6;
+
+  const tolerance = getTolerance(token.key.length);
+  if (tolerance === 0) return 0;
+
+  const distance = editDistance(token.key, word.key);
+  if (distance <= tolerance) return 0.5 - 0.1 * distance;
+
+  // Still typing: compare against the start of longer words
+  if (word.key.length > token.key.length) {
+    const prefixDistance = editDistance(token.key, word.key.slice(0, token.key.length));
+    if (prefixDistance <= tolerance) return 0.4 - 0.1 * prefixDistance;
+  }
+  return 0;
+};
+
+// The typed text itself when it appears in the word, otherwise the whole
+// word, e.g. "अनुवाद" for a search for "anuwad"
+const getHighlight = (token: QueryToken, word: IndexedWord): HighlightRange => {
+  const index = word.lower.indexOf(token.lower);
+  return index >= 0
+    ? [word.start + index, word.start + index + token.lower.length]
+    : [word.start, word.end];
+};
+
+const mergeRanges = (ranges: HighlightRange[]) =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<HighlightRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+
+// Fuzzy, transliteration-aware search over catalog entries. Every word of the
+// query has to match somewhere; results are ranked by how closely the words
+// matched and in which field, ties keeping catalog order.
+export const createSearchIndex = <T>(items: T[], fields: SearchField<T>[]) => {
+  const entries = items.map(item => ({
+    item,
+    fields: fields.map(field => ({ field, words: tokenize(field.get(item) ?? '') })),
+  }));
+
+  const search = (query: string): SearchMatch<T>[] => {
+    const tokens = tokenize(query).map(({ key, lower }) => ({ key, lower }));
+    if (tokens.length === 0) return items.map(item => ({ item, score: 0, highlights: {} }));
+
+    const matches: SearchMatch<T>[] = [];
+    entries.forEach(entry => {
+      const ranges: Record<string, HighlightRange[]> = {};
+      let total = 0;
+
+      for (const token of tokens) {
+        let best = 0;
+        entry.fields.forEach(({ field, words }) => {
+          words.forEach(word => {
+            const score = scoreWord(token, word);
+            if (score === 0) return;
+            best = Math.max(best, score * field.weight);
+            (ranges[field.name] ??= []).push(getHighlight(token, word));
+          });
+        });
+        if (best === 0) return;
+        total += best;
+      }
+
+      const highlights = Object.fromEntries(
+        Object.entries(ranges).map(([name, fieldRanges]) => [name, mergeRanges(fieldRanges)])
+      );
+      matches.push({ item: entry.item, score: total / tokens.length, highlights });
+    });
+
+    return matches.sort((a, b) => b.score - a.score);
+  };
+
+  return { search };
+};
+
+// Grouped results with each group's best match first, and groups ordered by
+// their best match
+export const rankGroups = <T>(groups: [string, T[]][], getScore: (item: T) => number) =>
+  groups
+    .map(([name, items]) => [name, [...items].sort((a, b) => getScore(b) - getScore(a))] as [string, T[]])
+    .sort(([, a], [, b]) => getScore(b[0]) - getScore(a[0]));
@@ -0,0 +1,253 @@
+// Typed, versioned wrapper around localStorage, plus an IndexedDB store for
+// data too large for it. All persisted app state should go through here.
+
+import type { CachedCatalog } from './catalog';
+import type { CaptionSettings } from './captions';
+import type { Lecture } from './lectures';
+import type { Note } from './notes';
+import type { SavedPlaylist } from './queue';
+import type { WatchRecord } from './watch-history';
+
+// Every localStorage key the app uses and the type of value stored under it
+export interface StorageSchema {
+  access_granted: number;
+  legacy_progress_migrated: number;
+  caption_settings: CaptionSettings;
+  autoplay_next: boolean;
+  watch_queue: string[];
+  playlists: SavedPlaylist[];
+  completion_threshold: number;
+  // Player / notes panel sizes in the split view, in percent
+  split_view_layout: number[];
+  split_view_open: boolean;
+  // Lecture played most recently, for "continue" shortcuts
+  last_lecture: string;
+  // Command palette entry IDs, most recent first
+  command_palette_recent: string[];
+  [key: `video_progress_${string}`]: number;
+}
+
+export type StorageKey = keyof StorageSchema;
+
+// Every IndexedDB key the app uses: data that would crowd out localStorage's
+// few megabytes
+export interface IdbSchema {
+  catalog_lectures: CachedCatalog<Lecture>;
+  catalog_notes: CachedCatalog<Note>;
+  [key: `watch_record_${string}`]: WatchRecord;
+}
+
+export type IdbKey = keyof IdbSchema;
+
+export const STORAGE_VERSION = 1;
+const VERSION_KEY = 'storage_version';
+
+interface Migration {
+  version: number;
+  migrate: () => void;
+}
+
+// Each migration upgrades the stored data to `version`. Add new ones at the end.
+const migrations: Migration[] = [
+  {
+    // Unversioned builds wrote raw strings; re-encode any of this app's keys
+    // that aren't JSON. Other keys on the origin (next-themes' "theme") aren't
+    // ours to touch.
+    version: 1,
+    migrate: () => {
+      rawKeys().forEach(key => {
+        if (key !== 'access_granted' && !key.startsWith('video_progress_')) return;
+        const raw = localStorage.getItem(key);
+        if (raw === null) return;
+        try {
+          JSON.parse(raw);
+        } catch {
+          localStorage.setItem(key, JSON.stringify(raw));
+        }
+      });
+    },
+  },
+];
+
+// Used when localStorage is unavailable or full, so the session keeps working
+const memoryFallback = new Map<string, string>();
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014);
+
+const rawKeys = () => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key !== null) keys.push(key);
+  }
+  return keys;
+};
+
+const readRaw = (key: string) => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw !== null ? raw : memoryFallback.get(key) ?? null;
+  } catch {
+    return memoryFallback.get(key) ?? null;
+  }
+};
+
+// Bring stored data up to STORAGE_VERSION. Runs once per page load.
+let migrated = false;
+const ensureMigrated = () => {
+  if (migrated) return;
+  migrated = true;
+  try {
+    const current = parseInt(localStorage.getItem(VERSION_KEY) || '0');
+    if (current >= STORAGE_VERSION) return;
+
+    migrations
+      .filter(migration => migration.version > current)
+      .forEach(migration => {
+        migration.migrate();
+        localStorage.setItem(VERSION_KEY, migration.version.toString());
+      });
+  } catch (error) {
+    console.error('Error migrating storage:', error);
+  }
+};
+
+export const storage = {
+  get<K extends StorageKey>(key: K): StorageSchema[K] | null {
+    ensureMigrated();
+    const raw = readRaw(key);
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw) as StorageSchema[K];
+    } catch (error) {
+      console.error(`Error reading "${key}" from storage:`, error);
+      return null;
+    }
+  },
+
+  // Returns false when the value could only be kept in memory for this session
+  set<K extends StorageKey>(key: K, value: StorageSchema[K]): boolean {
+    ensureMigrated();
+    const raw = JSON.stringify(value);
+    try {
+      localStorage.setItem(key, raw);
+      memoryFallback.delete(key);
+      return true;
+    } catch (error) {
+      if (isQuotaError(error)) {
+        console.warn(`Storage quota exceeded while saving "${key}"; keeping it in memory`);
+      } else {
+        console.error(`Error saving "${key}" to storage:`, error);
+      }
+      memoryFallback.set(key, raw);
+      return false;
+    }
+  },
+
+  remove(key: StorageKey) {
+    memoryFallback.delete(key);
+    try {
+      localStorage.removeItem(key);
+    } catch (error) {
+      console.error(`Error removing "${key}" from storage:`, error);
+    }
+  },
+
+  // Raw access for migrations of keys that predate the schema
+  legacy: {
+    get: readRaw,
+    remove: (key: string) => {
+      memoryFallback.delete(key);
+      try {
+        localStorage.removeItem(key);
+      } catch {
+        // Nothing to clean up if storage is unavailable
+      }
+    },
+  },
+};
+
+// IndexedDB key/value store for larger data. Its contents are read into
+// memory once at startup by idbStorage.load(), so reads stay synchronous like
+// storage.get(); writes update memory straight away and persist in the
+// background.
+const DB_NAME = 'shahab-streams';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Everything in the database; also holds values for the rest of the session
+// when IndexedDB is unavailable
+const idbCache = new Map<string, unknown>();
+
+export const idbStorage = {
+  // Call before the app renders. Never rejects: without IndexedDB the app
+  // starts empty and keeps data in memory only.
+  async load() {
+    try {
+      const [keys, values] = await Promise.all([
+        runRequest('readonly', store => store.getAllKeys()),
+        runRequest('readonly', store => store.getAll()),
+      ]);
+      keys.forEach((key, index) => idbCache.set(String(key), values[index]));
+    } catch (error) {
+      console.error('Error loading IndexedDB:', error);
+    }
+  },
+
+  get<K extends IdbKey>(key: K): IdbSchema[K] | null {
+    return (idbCache.get(key) as IdbSchema[K] | undefined) ?? null;
+  },
+
+  set<K extends IdbKey>(key: K, value: IdbSchema[K]) {
+    idbCache.set(key, value);
+    runRequest('readwrite', store => store.put(value, key)).catch(error => {
+      if (isQuotaError(error)) {
+        console.warn(`IndexedDB quota exceeded while saving "${key}"; keeping it in memory`);
+      } else {
+        console.error(`Error saving "${key}" to IndexedDB:`, error);
+      }
+    });
+  },
+};
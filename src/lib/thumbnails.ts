@@ -0,0 +1,64 @@
+// One frame in a thumbnail VTT: a region of a sprite sheet shown for a time range
+export interface ThumbnailCue {
+  start: number;
+  end: number;
+  // Absolute URL of the sprite sheet image
+  src: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// "01:02:03.456" or "02:03.456" to seconds
+const parseTimestamp = (value: string) => {
+  const parts = value.trim().split(':').map(parseFloat);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Parses a WebVTT thumbnail track whose cue payloads look like
+// "sprite-0.jpg#xywh=0,0,160,90". Image paths resolve against `baseUrl`.
+export const parseThumbnailVtt = (text: string, baseUrl: string): ThumbnailCue[] => {
+  const cues: ThumbnailCue[] = [];
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1 || !lines[timingIndex + 1]) return;
+
+    const [startText, endText] = lines[timingIndex].split('-->');
+    const [path, fragment] = lines[timingIndex + 1].split('#');
+    const xywh = fragment?.match(/xywh=(\d+),(\d+),(\d+),(\d+)/);
+    if (!xywh) return;
+
+    cues.push({
+      start: parseTimestamp(startText),
+      end: parseTimestamp(endText.trim().split(/\s+/)[0]),
+      src: new URL(path, baseUrl).toString(),
+      x: parseInt(xywh[1]),
+      y: parseInt(xywh[2]),
+      width: parseInt(xywh[3]),
+      height: parseInt(xywh[4]),
+    });
+  });
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+// Cue covering `time`, found by binary search over the sorted cues
+export const findThumbnail = (cues: ThumbnailCue[], time: number) => {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (time < cues[mid].start) {
+      high = mid - 1;
+    } else if (time >= cues[mid].end) {
+      low = mid + 1;
+    } else {
+      return cues[mid];
+    }
+  }
+  return null;
+};
@@ -0,0 +1,40 @@
+// Format seconds as MM:SS
+export const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Snapshot of a media element's buffered ranges
+export const getBufferedRanges = (media: HTMLMediaElement): TimeRange[] => {
+  const ranges: TimeRange[] = [];
+  for (let i = 0; i < media.buffered.length; i++) {
+    ranges.push({ start: media.buffered.start(i), end: media.buffered.end(i) });
+  }
+  return ranges;
+};
+
+// Parse a `?t=` timestamp: plain seconds ("750"), clock time ("12:30",
+// "1:02:30") or YouTube style ("12m30s", "1h2m30s"). Null when unreadable.
+export const parseTimestamp = (value: string | null) => {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+
+  if (/^\d+(\.\d+)?s?$/.test(trimmed)) return parseFloat(trimmed);
+
+  if (/^\d+(:\d{1,2}){1,2}$/.test(trimmed)) {
+    return trimmed.split(':').reduce((total, part) => total * 60 + parseInt(part), 0);
+  }
+
+  const match = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (match && (match[1] || match[2] || match[3])) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = match;
+    return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds);
+  }
+  return null;
+};
@@ -0,0 +1,113 @@
+// Devanagari to Latin transliteration and a loose phonetic key, so a search
+// typed in either script (or in Hinglish spellings like "anuwad" and
+// "anuvaad") can be compared against titles written in the other
+
+const VIRAMA = '्';
+const NUKTA = '़';
+
+// ITRANS-style spellings
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'ळ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+};
+
+// Consonants written with a nukta (NFC keeps these decomposed)
+const NUKTA_CONSONANTS: Record<string, string> = {
+  'क': 'q', 'ख': 'kh', 'ग': 'g', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f',
+};
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ii', 'उ': 'u', 'ऊ': 'uu', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऍ': 'e', 'ऑ': 'o',
+};
+
+const MATRAS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ii', 'ु': 'u', 'ू': 'uu',
+  'ृ': 'ri', 'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au',
+  'ॅ': 'e', 'ॉ': 'o',
+};
+
+const SIGNS: Record<string, string> = {
+  'ं': 'n', // anusvara
+  'ँ': 'n', // chandrabindu
+  'ः': 'h', // visarga
+  '।': ' ',
+  '॥': ' ',
+};
+
+const isDevanagari = (char: string | undefined) => !!char && char >= 'ऀ' && char <= 'ॿ';
+
+// "अनुवाद" -> "anuvaad". The inherent vowel is dropped at the end of a word, as
+// Hindi pronounces it, except after a conjunct ("वाच्य" -> "vaachya").
+export const devanagariToLatin = (text: string) => {
+  const chars = [...text.normalize('NFC')];
+  let out = '';
+  let wordStart = 0;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (CONSONANTS[char]) {
+      let next = chars[i + 1];
+      let latin = CONSONANTS[char];
+      if (next === NUKTA) {
+        latin = NUKTA_CONSONANTS[char] ?? latin;
+        i++;
+        next = chars[i + 1];
+      }
+      out += latin;
+
+      if (MATRAS[next]) {
+        out += MATRAS[next];
+        i++;
+      } else if (next === VIRAMA) {
+        i++;
+      } else {
+        const atWordEnd = !isDevanagari(next) || SIGNS[next] === ' ';
+        const inConjunct = chars[i - 1] === VIRAMA || (chars[i - 1] === NUKTA && chars[i - 2] === VIRAMA);
+        if (!atWordEnd || inConjunct || i === wordStart) out += 'a';
+      }
+    } else if (VOWELS[char]) {
+      out += VOWELS[char];
+    } else if (SIGNS[char]) {
+      out += SIGNS[char];
+    } else if (char >= '०' && char <= '९') {
+      out += String(char.charCodeAt(0) - '०'.charCodeAt(0));
+    } else {
+      out += char;
+    }
+
+    if (!isDevanagari(char)) wordStart = i + 1;
+  }
+
+  return out;
+};
+
+// Collapses the spelling differences Hinglish and ITRANS allow for the same
+// word: vowel length, w/v, aspiration, sh/s, doubled letters and diacritics.
+// Used on both sides of a comparison, never shown.
+export const phoneticKey = (word: string) => {
+  const latin = devanagariToLatin(word)
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase();
+
+  if (/^\d+$/.test(latin)) return String(parseInt(latin));
+
+  return latin
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/q/g, 'k')
+    .replace(/ph/g, 'f')
+    .replace(/c+h+/g, 'c')
+    .replace(/sh/g, 's')
+    .replace(/([kgjtdb])h/g, '$1')
+    .replace(/ee|ii/g, 'i')
+    .replace(/oo|uu/g, 'u')
+    .replace(/(.)\1+/g, '$1');
+};
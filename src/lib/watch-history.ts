@@ -0,0 +1,112 @@
+import { getProgressKey } from './lectures';
+import { idbStorage, storage } from './storage';
+import type { TimeRange } from './time';
+
+// Which parts of a lecture have actually been watched
+export interface WatchRecord {
+  // Merged, sorted, non-overlapping ranges in seconds
+  intervals: TimeRange[];
+  duration: number;
+  // When coverage first reached the completion threshold
+  completedAt: number | null;
+  // When ranges were last added; missing from records saved by older builds
+  lastWatchedAt?: number;
+}
+
+export const DEFAULT_COMPLETION_THRESHOLD = 0.9;
+export const completionThresholds = [0.8, 0.9, 0.95];
+// Positions this close to the end count as finished, not somewhere to resume
+export const FINISHED_MARGIN = 10;
+// Positions before this aren't worth offering to resume
+const MIN_RESUME_POSITION = 5;
+
+const getRecordKey = (lectureId: string) => `watch_record_${lectureId}` as const;
+
+// Merge overlapping or touching ranges into a sorted list
+export const mergeIntervals = (ranges: TimeRange[]) => {
+  const sorted = ranges
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.reduce<TimeRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+// Share of the lecture watched, from 0 to 1
+export const getCoverage = (record: WatchRecord | null) => {
+  if (!record || record.duration <= 0) return 0;
+  const watched = record.intervals.reduce((total, range) => total + (range.end - range.start), 0);
+  return Math.min(1, watched / record.duration);
+};
+
+export const getCompletionThreshold = () =>
+  storage.get('completion_threshold') ?? DEFAULT_COMPLETION_THRESHOLD;
+
+export const setCompletionThreshold = (threshold: number) => {
+  storage.set('completion_threshold', threshold);
+};
+
+export const getWatchRecord = (lectureId: string) => idbStorage.get(getRecordKey(lectureId));
+
+export const isLectureComplete = (record: WatchRecord | null, threshold = getCompletionThreshold()) =>
+  getCoverage(record) >= threshold;
+
+// Add newly watched ranges to a lecture's record and persist it
+export const recordWatchedIntervals = (lectureId: string, ranges: TimeRange[], duration: number) => {
+  const existing = getWatchRecord(lectureId);
+  const record: WatchRecord = {
+    intervals: mergeIntervals([...(existing?.intervals || []), ...ranges]),
+    duration: duration > 0 && isFinite(duration) ? duration : existing?.duration ?? 0,
+    completedAt: existing?.completedAt ?? null,
+    lastWatchedAt: Date.now(),
+  };
+  if (!record.completedAt && isLectureComplete(record)) {
+    record.completedAt = Date.now();
+  }
+
+  idbStorage.set(getRecordKey(lectureId), record);
+  return record;
+};
+
+export const isFinishedPosition = (position: number, duration: number) =>
+  duration > 0 && isFinite(duration) && position >= duration - FINISHED_MARGIN;
+
+// Saved resume position, or null when there is nothing worth resuming
+export const getSavedPosition = (lectureId: string) => {
+  const position = storage.get(getProgressKey(lectureId));
+  if (!position || position < MIN_RESUME_POSITION) return null;
+  // Positions saved before finished ones were cleared can still be near the end
+  const duration = getWatchRecord(lectureId)?.duration ?? 0;
+  return isFinishedPosition(position, duration) ? null : position;
+};
+
+// Remember where playback is; reaching the end clears the position instead
+export const saveResumePosition = (lectureId: string, position: number, duration: number) => {
+  storage.set('last_lecture', lectureId);
+  if (isFinishedPosition(position, duration)) {
+    clearSavedPosition(lectureId);
+  } else if (position > 0) {
+    storage.set(getProgressKey(lectureId), position);
+  }
+};
+
+export const getLastLectureId = () => storage.get('last_lecture');
+
+export type WatchStatus = 'unwatched' | 'in-progress' | 'completed';
+
+export const getWatchStatus = (lectureId: string, threshold = getCompletionThreshold()): WatchStatus => {
+  const coverage = getCoverage(getWatchRecord(lectureId));
+  if (coverage >= threshold) return 'completed';
+  return coverage > 0 || getSavedPosition(lectureId) !== null ? 'in-progress' : 'unwatched';
+};
+
+export const clearSavedPosition = (lectureId: string) => {
+  storage.remove(getProgressKey(lectureId));
+};
@@ -1,10 +1,13 @@
+import { Outlet } from 'react-router-dom';
 import AccessControl from '../components/AccessControl';
 import HomePage from '../components/HomePage';
 
+// Layout for every app route; HomePage reads the URL itself
 const Index = () => {
   return (
     <AccessControl>
       <HomePage />
+      <Outlet />
     </AccessControl>
   );
 };